@@ -0,0 +1,275 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { BaseKnowledgeProvider } from './BaseKnowledgeProvider.js';
+import { HashingEmbedder, type EmbeddingProvider } from '../utils/embedding.js';
+import { ApiSource, BaseSource, type SourceContext, type SourceResult } from '../sources/BaseSource.js';
+import { MarkdownDirectorySource } from '../sources/MarkdownDirectorySource.js';
+import { ApiKeyAuth, BasicAuth, BearerTokenAuth, type AuthStrategy } from '../utils/auth.js';
+import { KnowledgeProviderConfigSchema, type Document } from '../types/index.js';
+
+/**
+ * A source serving documents from memory
+ */
+class MemorySource extends BaseSource {
+  constructor(name: string, public documents: Document[] = []) {
+    super(name, 'Memory source');
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  async fetchDocuments(): Promise<SourceResult> {
+    return { documents: this.documents };
+  }
+
+  async fetchDocument(id: string): Promise<Document | null> {
+    return this.documents.find(doc => doc.id === id) ?? null;
+  }
+
+  async getDocumentCount(): Promise<number> {
+    return this.documents.length;
+  }
+}
+
+/**
+ * Result of the agent write tools
+ */
+interface ToolResult {
+  id?: string;
+  source?: string;
+  chunkCount?: number;
+  deleted?: boolean;
+  error?: string;
+}
+
+/**
+ * An API source whose count fails with the request it sent in the
+ * message, as some client libraries report failures
+ */
+class FailingApiSource extends ApiSource {
+  constructor(name: string, auth: AuthStrategy) {
+    super(name, 'Failing API', 'https://api.example.com', {}, { auth });
+  }
+
+  async fetchDocuments(): Promise<SourceResult> {
+    return { documents: [] };
+  }
+
+  async fetchDocument(): Promise<Document | null> {
+    return null;
+  }
+
+  async getDocumentCount(): Promise<number> {
+    const url = new URL(`${this.baseUrl}/count`);
+    const headers = new Headers();
+    await this.apiOptions.auth!.apply({ url, headers });
+    throw new Error(`GET ${url} failed: 500 (request headers: ${JSON.stringify(Object.fromEntries(headers))})`);
+  }
+}
+
+/**
+ * A provider over the given sources, optionally with semantic retrieval
+ */
+class TestProvider extends BaseKnowledgeProvider {
+  constructor(options: { semantic?: boolean; embedder?: EmbeddingProvider; sources?: BaseSource[] } = {}) {
+    super(
+      { name: 'test-provider', version: '1.0.0', description: 'Test provider', capabilities: ['retrieve', 'search'] },
+      undefined,
+      KnowledgeProviderConfigSchema.parse({})
+    );
+    if (options.semantic || options.embedder) this.setEmbeddingProvider(options.embedder ?? new HashingEmbedder());
+    for (const source of options.sources ?? []) this.registerSource(source);
+  }
+
+  run(tool: string, input: Record<string, unknown>): Promise<ToolResult> {
+    return this.executeTool(tool, input, 'test') as Promise<ToolResult>;
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const context = { logger: { info: () => undefined }, requestId: 'test' } as unknown as SourceContext;
+
+function document(id: string, content: string, metadata: Partial<Document['metadata']> = {}): Document {
+  return { id, type: 'text', content, metadata: { source: 'docs', ...metadata } };
+}
+
+describe('BaseKnowledgeProvider hybrid search', () => {
+  it('keeps excluded and out-of-scope documents out of semantic candidates', async () => {
+    const provider = new TestProvider({ semantic: true });
+    await provider.indexDocument(document('docs:retry.md', 'Retry failed requests with exponential backoff.'));
+    await provider.indexDocument(document('docs:legacy.md', 'Legacy retry of failed requests without backoff.'));
+    await provider.indexDocument(document('docs:secure.md', 'Retry signed requests after refreshing tokens.', { tags: ['security'] }));
+
+    const ids = async (query: string) =>
+      (await provider.search({ query, mode: 'hybrid' })).chunks.map(hit => hit.chunk.documentId).sort();
+
+    expect(await ids('retry requests')).toEqual(['docs:legacy.md', 'docs:retry.md', 'docs:secure.md']);
+    expect(await ids('retry requests -legacy')).toEqual(['docs:retry.md', 'docs:secure.md']);
+    expect(await ids('retry requests +tag:security')).toEqual(['docs:secure.md']);
+  });
+});
+
+describe('BaseKnowledgeProvider indexing', () => {
+  it('keeps the previous version indexed when embedding fails', async () => {
+    const hashing = new HashingEmbedder();
+    let failing = false;
+    const embedder: EmbeddingProvider = {
+      name: hashing.name,
+      dimensions: hashing.dimensions,
+      embed: texts => failing ? Promise.reject(new Error('Embedding service unavailable')) : hashing.embed(texts),
+    };
+    const provider = new TestProvider({ embedder });
+    await provider.indexDocument(document('docs:retry.md', 'Retry failed requests with exponential backoff.'));
+
+    failing = true;
+    await expect(provider.indexDocument(document('docs:retry.md', 'Circuit breakers stop cascading failures.')))
+      .rejects.toThrow('Embedding service unavailable');
+    failing = false;
+
+    expect(provider.getDocument('docs:retry.md')?.content).toContain('exponential backoff');
+    for (const mode of ['keyword', 'semantic'] as const) {
+      const { chunks } = await provider.search({ query: 'exponential backoff', mode });
+      expect(chunks.map(hit => hit.chunk.documentId), mode).toEqual(['docs:retry.md']);
+    }
+    expect((await provider.search({ query: 'circuit breakers', mode: 'keyword' })).chunks).toEqual([]);
+  });
+});
+
+describe('BaseKnowledgeProvider agent writes', () => {
+  async function syncedProvider(): Promise<TestProvider> {
+    const source = new MemorySource('docs', [document('docs:guide.md', 'Install the server.')]);
+    const provider = new TestProvider({ sources: [source] });
+    await provider.syncSource(source, context);
+    return provider;
+  }
+
+  it('ingests documents under the agent source', async () => {
+    const provider = await syncedProvider();
+
+    const { id, source, chunkCount } = await provider.run('ingest', { content: 'Deploys need a change ticket.', metadata: { tags: ['process'] } });
+
+    expect(id).toMatch(/^agent:/);
+    expect(source).toBe('agent');
+    expect(chunkCount).toBe(1);
+    expect(provider.getDocument(id!)?.metadata).toMatchObject({ source: 'agent', origin: 'agent', tags: ['process'] });
+  });
+
+  it('rejects registered source names, their ID prefixes and existing IDs', async () => {
+    const provider = await syncedProvider();
+
+    expect(await provider.run('ingest', { content: 'Note', source: 'docs' }))
+      .toEqual({ error: "Source 'docs' is synced from a registered source; choose another source name" });
+    expect(await provider.run('ingest', { id: 'docs:notes.md', content: 'Note' }))
+      .toEqual({ error: "Document IDs starting with 'docs:' are reserved for source 'docs'" });
+
+    await provider.run('ingest', { id: 'notes:deploy', content: 'Note' });
+    expect(await provider.run('ingest', { id: 'notes:deploy', content: 'Other note' }))
+      .toEqual({ error: "Document 'notes:deploy' already exists; use update-document to change it" });
+  });
+
+  it('updates agent documents, keeping omitted fields', async () => {
+    const provider = await syncedProvider();
+    await provider.run('ingest', { id: 'notes:deploy', title: 'Deploys', content: 'Deploys need a change ticket.' });
+
+    expect(await provider.run('update-document', { id: 'notes:deploy', content: 'Deploys need two approvals.' }))
+      .toEqual({ id: 'notes:deploy', chunkCount: 1 });
+
+    const updated = provider.getDocument('notes:deploy');
+    expect(updated).toMatchObject({ title: 'Deploys', content: 'Deploys need two approvals.' });
+    expect(updated?.metadata.updatedAt).toBeDefined();
+    expect((await provider.search({ query: 'approvals' })).chunks).toHaveLength(1);
+  });
+
+  it('deletes agent documents', async () => {
+    const provider = await syncedProvider();
+    await provider.run('ingest', { id: 'notes:deploy', content: 'Deploys need a change ticket.' });
+
+    expect(await provider.run('delete-document', { id: 'notes:deploy' })).toEqual({ id: 'notes:deploy', deleted: true });
+    expect(provider.getDocument('notes:deploy')).toBeUndefined();
+  });
+
+  it('refuses to change synced or unknown documents', async () => {
+    const provider = await syncedProvider();
+    const synced = "Document 'docs:guide.md' is synced from source 'docs' and cannot be changed by agents";
+
+    expect(await provider.run('update-document', { id: 'docs:guide.md', content: 'Changed' })).toEqual({ error: synced });
+    expect(await provider.run('delete-document', { id: 'docs:guide.md' })).toEqual({ error: synced });
+    expect(await provider.run('update-document', { id: 'notes:missing', content: 'Changed' }))
+      .toEqual({ error: "Document 'notes:missing' not found" });
+    expect(await provider.run('delete-document', { id: 'notes:missing' })).toEqual({ error: "Document 'notes:missing' not found" });
+    expect(provider.getDocument('docs:guide.md')?.content).toBe('Install the server.');
+  });
+});
+
+describe('BaseKnowledgeProvider source status', () => {
+  it('redacts credentials from the errors of failing sources', async () => {
+    const sources = [
+      new FailingApiSource('bearer', new BearerTokenAuth({ token: 'bearer-token-123' })),
+      new FailingApiSource('api-key', new ApiKeyAuth({ key: 'api-key-456', query: 'key' })),
+      new FailingApiSource('basic', new BasicAuth({ username: 'bot', password: 'basic-password-789' })),
+    ];
+    for (const source of sources) await source.connect(context);
+    const provider = new TestProvider({ sources });
+
+    const statuses = await provider.getSourceStatus();
+    const errors = statuses.map(status => status.error!);
+
+    expect(statuses.map(status => status.name)).toEqual(['bearer', 'api-key', 'basic']);
+    expect(errors[0]).toContain('"authorization":"Bearer [REDACTED]"');
+    expect(errors[1]).toContain('/count?key=[REDACTED]');
+    expect(errors[2]).toContain('"authorization":"Basic [REDACTED]"');
+    for (const secret of ['bearer-token-123', 'api-key-456', 'basic-password-789', Buffer.from('bot:basic-password-789').toString('base64')]) {
+      expect(errors.join('\n')).not.toContain(secret);
+    }
+  });
+});
+
+describe('BaseKnowledgeProvider watched changes', () => {
+  it('removes the documents below a deleted directory', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'provider-watch-'));
+    await mkdir(path.join(dir, 'guides'));
+    await writeFile(path.join(dir, 'guides', 'install.md'), '# Install');
+    await writeFile(path.join(dir, 'guides', 'upgrade.md'), '# Upgrade');
+    await writeFile(path.join(dir, 'guides.md'), '# Guides');
+    const source = new MarkdownDirectorySource('docs', 'Docs', dir, { watch: true, watchDebounceMs: 50 });
+    const provider = new TestProvider({ sources: [source] });
+
+    try {
+      await provider.initializeSources();
+      await provider.syncSources();
+      await provider.run('ingest', { id: 'notes:guides', content: 'Guides need owners.' });
+
+      await rm(path.join(dir, 'guides'), { recursive: true });
+      await wait(300);
+
+      // `docs:guides.md` shares the prefix but not the directory
+      expect(provider.getDocuments().map(doc => doc.id).sort()).toEqual(['docs:guides.md', 'notes:guides']);
+    } finally {
+      await provider.shutdown();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('removes the documents below an unlinked ID', async () => {
+    const source = new MemorySource('docs', [
+      document('docs:guides/install.md', 'Install the server.'),
+      document('docs:guides/deep/upgrade.md', 'Upgrade the server.'),
+      document('docs:guides-old.md', 'Old guides.'),
+    ]);
+    const provider = new TestProvider({ sources: [source] });
+    await provider.syncSource(source, context);
+
+    const stats = await provider.applySourceChanges(source, [{ type: 'unlink', id: 'docs:guides' }]);
+
+    expect(stats.removed).toBe(2);
+    expect(provider.getDocuments().map(doc => doc.id)).toEqual(['docs:guides-old.md']);
+  });
+});
@@ -6,19 +6,72 @@ import {
   createToolHandler,
 } from '@xorng/template-base';
 import { z } from 'zod';
-import { BaseSource, type SourceContext } from '../sources/BaseSource.js';
+import { BaseSource, type SourceChange, type SourceContext } from '../sources/BaseSource.js';
 import { DocumentStore, type StoredDocument } from '../utils/store.js';
 import { SearchIndex, type SearchResult } from '../utils/search.js';
 import { ChunkingUtils } from '../utils/chunking.js';
+import { ApproximateTokenizer, type Tokenizer } from '../utils/tokenizer.js';
+import { Analyzer } from '../utils/analysis.js';
+import type { EmbeddingProvider } from '../utils/embedding.js';
+import { VectorIndex } from '../utils/vector.js';
+import { reciprocalRankFusion } from '../utils/fusion.js';
+import { HeuristicReranker, type Reranker } from '../utils/rerank.js';
+import { collapseByDocument, maximalMarginalRelevance } from '../utils/diversity.js';
+import { packContext } from '../utils/context.js';
+import { SnapshotStore } from '../utils/persistence.js';
+import { contentHash } from '../utils/hash.js';
+import { parseQuery, queryText, QuerySyntaxError } from '../utils/query.js';
 import type {
+  ContextRequest,
+  ContextResult,
   Document,
   DocumentChunk,
   KnowledgeQuery,
   KnowledgeResult,
   KnowledgeProviderConfig,
   KnowledgeProviderConfigSchema,
+  SearchMode,
   SourceStatus,
+  SyncStats,
 } from '../types/index.js';
+import {
+  CollapseModeSchema,
+  DocumentMetadataSchema,
+  DocumentSchema,
+  DocumentTypeSchema,
+  SearchFiltersSchema,
+  SearchModeSchema,
+} from '../types/index.js';
+
+/**
+ * Default source name of documents written by agents
+ */
+const AGENT_SOURCE = 'agent';
+
+/**
+ * Metadata agents may set; the source and origin are managed by the provider
+ */
+const AgentMetadataSchema = DocumentMetadataSchema.omit({ source: true, origin: true }).partial();
+
+/**
+ * Best keyword score below which results are weak enough to suggest
+ * corrected queries: most of the query's term weight went unmatched
+ */
+const WEAK_MATCH_SCORE = 0.5;
+
+/**
+ * A change to the stored documents
+ */
+export interface DocumentChange {
+  type: 'added' | 'updated' | 'removed';
+  id: string;
+  source: string;
+}
+
+/**
+ * Callback receiving document changes
+ */
+export type DocumentChangeListener = (change: DocumentChange) => void;
 
 /**
  * Base class for knowledge provider sub-agents
@@ -26,12 +79,20 @@ import type {
  * Provides knowledge retrieval infrastructure:
  * - Source registration and management
  * - Document storage and indexing
- * - Search and retrieval
+ * - Search and retrieval (keyword, or semantic once an embedder is set)
+ * - Optional on-disk snapshots for warm restarts
  */
 export abstract class BaseKnowledgeProvider extends BaseSubAgent {
   protected sources: Map<string, BaseSource> = new Map();
   protected store: DocumentStore;
   protected index: SearchIndex;
+  protected embedder?: EmbeddingProvider;
+  protected vectorIndex?: VectorIndex;
+  protected reranker?: Reranker;
+  protected tokenizer: Tokenizer = new ApproximateTokenizer();
+  protected snapshots?: SnapshotStore;
+  private changeQueue: Promise<void> = Promise.resolve();
+  private documentListeners: Set<DocumentChangeListener> = new Set();
   protected chunking: ChunkingUtils;
   protected providerConfig: KnowledgeProviderConfig;
 
@@ -51,16 +112,25 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
       chunkSize: 1000,
       chunkOverlap: 200,
       maxResults: 10,
-      minScore: 0.5,
+      minScore: 0,
     };
 
     this.store = new DocumentStore();
-    this.index = new SearchIndex();
+    this.index = new SearchIndex(this.providerConfig.ranking, new Analyzer(this.providerConfig.analysis));
     this.chunking = new ChunkingUtils(
       this.providerConfig.chunkSize || 1000,
-      this.providerConfig.chunkOverlap || 200
+      this.providerConfig.chunkOverlap || 200,
+      { unit: this.providerConfig.chunkUnit }
     );
 
+    if (this.providerConfig.rerank?.enabled) {
+      this.reranker = new HeuristicReranker({ analyzer: new Analyzer(this.providerConfig.analysis) });
+    }
+
+    if (this.providerConfig.persistence) {
+      this.snapshots = new SnapshotStore(this.providerConfig.persistence.directory);
+    }
+
     // Register standard tools
     this.registerStandardTools();
   }
@@ -76,6 +146,57 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
     this.logger.debug({ source: source.name }, 'Source registered');
   }
 
+  /**
+   * Enable semantic retrieval with an embedding provider
+   *
+   * Must be called before documents are indexed; chunks indexed
+   * earlier have no embeddings.
+   */
+  protected setEmbeddingProvider(embedder: EmbeddingProvider): void {
+    this.embedder = embedder;
+    this.vectorIndex = new VectorIndex();
+    this.logger.debug({ embedder: embedder.name }, 'Embedding provider set');
+  }
+
+  /**
+   * Rescore the top search candidates with a reranker
+   *
+   * Replaces the built-in heuristic reranker enabled by `rerank.enabled`.
+   */
+  protected setReranker(reranker: Reranker): void {
+    this.reranker = reranker;
+    this.logger.debug({ reranker: reranker.name }, 'Reranker set');
+  }
+
+  /**
+   * Measure chunk sizes and context budgets in tokens of the given
+   * tokenizer
+   *
+   * Switches `chunkSize` and `chunkOverlap` to tokens. Must be called
+   * before documents are indexed.
+   */
+  protected setTokenizer(tokenizer: Tokenizer): void {
+    this.tokenizer = tokenizer;
+    this.providerConfig = { ...this.providerConfig, chunkUnit: 'tokens' };
+    this.chunking = new ChunkingUtils(
+      this.providerConfig.chunkSize || 1000,
+      this.providerConfig.chunkOverlap || 200,
+      { unit: 'tokens', tokenizer }
+    );
+    this.logger.debug({ tokenizer: tokenizer.name }, 'Tokenizer set');
+  }
+
+  /**
+   * Analyze keyword search text with a custom analyzer
+   *
+   * Use it to add custom token filters. Must be called before documents
+   * are indexed.
+   */
+  protected setAnalyzer(analyzer: Analyzer): void {
+    this.index = new SearchIndex(this.providerConfig.ranking, analyzer);
+    this.logger.debug({ analyzer: analyzer.signature }, 'Analyzer set');
+  }
+
   /**
    * Get all registered sources
    */
@@ -97,7 +218,18 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
         await source.connect(context);
         this.logger.info({ source: name }, 'Source connected');
       } catch (error) {
-        this.logger.error({ source: name, error }, 'Failed to connect source');
+        this.logger.error({ source: name, error: source.redactError(error) }, 'Failed to connect source');
+        continue;
+      }
+
+      const watching = source.watch(changes => {
+        this.enqueueChange(() => this.applySourceChanges(source, changes)).catch(error => {
+          this.logger.error({ source: name, error: source.redactError(error) }, 'Failed to apply source changes');
+        });
+      }, context);
+
+      if (watching) {
+        this.logger.info({ source: name }, 'Watching source for changes');
       }
     }
   }
@@ -105,11 +237,12 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
   /**
    * Sync documents from all sources
    */
-  async syncSources(): Promise<void> {
+  async syncSources(): Promise<SyncStats> {
     const context: SourceContext = {
       logger: this.logger,
       requestId: crypto.randomUUID(),
     };
+    const totals: SyncStats = { added: 0, updated: 0, removed: 0, unchanged: 0 };
 
     for (const [name, source] of this.sources) {
       if (!source.isConnected()) {
@@ -118,70 +251,453 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
       }
 
       try {
-        const result = await source.fetchDocuments(context);
-        
-        for (const doc of result.documents) {
-          await this.indexDocument(doc);
+        const stats = await this.syncSource(source, context);
+        totals.added += stats.added;
+        totals.updated += stats.updated;
+        totals.removed += stats.removed;
+        totals.unchanged += stats.unchanged;
+      } catch (error) {
+        this.logger.error({ source: name, error: source.redactError(error) }, 'Failed to sync source');
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Sync a single source against the stored documents
+   *
+   * New and changed documents are (re-)indexed, documents whose content
+   * hash is unchanged are left alone, and stored documents the source no
+   * longer returns are removed. Runs in the change queue, after pending
+   * watch changes and agent writes.
+   */
+  async syncSource(source: BaseSource, context: SourceContext): Promise<SyncStats> {
+    return this.enqueueChange(() => this.reconcileSource(source, context));
+  }
+
+  /**
+   * Reconcile the stored documents of a source with what it returns now
+   */
+  private async reconcileSource(source: BaseSource, context: SourceContext): Promise<SyncStats> {
+    const stats: SyncStats = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+    const result = await source.fetchDocuments(context);
+    const seen = new Set<string>();
+
+    for (const doc of result.documents) {
+      seen.add(doc.id);
+      const stored = this.store.get(doc.id);
+
+      if (!stored) {
+        await this.indexDocument(doc);
+        stats.added++;
+      } else if (this.hasChanged(stored, doc)) {
+        await this.indexDocument(doc);
+        stats.updated++;
+      } else {
+        stats.unchanged++;
+      }
+    }
+
+    // Documents the source no longer returns were deleted upstream;
+    // documents agents wrote under its name were never in it
+    for (const stored of this.store.getBySource(source.name)) {
+      if (!seen.has(stored.id) && stored.metadata.origin !== 'agent') {
+        this.removeDocument(stored.id);
+        stats.removed++;
+      }
+    }
+
+    this.logger.info({ source: source.name, ...stats }, 'Source synced');
+    return stats;
+  }
+
+  /**
+   * Re-index or remove the documents affected by pushed source changes
+   */
+  async applySourceChanges(source: BaseSource, changes: SourceChange[]): Promise<SyncStats> {
+    const context: SourceContext = {
+      logger: this.logger,
+      requestId: crypto.randomUUID(),
+    };
+    const stats: SyncStats = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+
+    for (const change of changes) {
+      if (change.type === 'unlink') {
+        // The path may have been a directory; drop everything beneath it
+        const prefix = `${change.id}/`;
+        for (const stored of this.store.getBySource(source.name)) {
+          if (stored.metadata.origin === 'agent') continue;
+          if (stored.id === change.id || stored.id.startsWith(prefix)) {
+            this.removeDocument(stored.id);
+            stats.removed++;
+          }
         }
+        continue;
+      }
 
-        this.logger.info({
-          source: name,
-          documentCount: result.documents.length,
-        }, 'Source synced');
-      } catch (error) {
-        this.logger.error({ source: name, error }, 'Failed to sync source');
+      const doc = await source.fetchDocument(change.id, context);
+      const stored = this.store.get(change.id);
+
+      if (!doc) {
+        if (stored && this.removeDocument(change.id)) stats.removed++;
+      } else if (!stored) {
+        await this.indexDocument(doc);
+        stats.added++;
+      } else if (this.hasChanged(stored, doc)) {
+        await this.indexDocument(doc);
+        stats.updated++;
+      } else {
+        stats.unchanged++;
       }
     }
+
+    this.logger.info({ source: source.name, ...stats }, 'Source changes applied');
+
+    if (stats.added + stats.updated + stats.removed > 0) {
+      await this.saveSnapshot();
+    }
+    return stats;
   }
 
   /**
-   * Index a document
+   * Check whether a fetched document differs from its stored version
+   *
+   * An identical source `updatedAt` short-circuits to unchanged; otherwise
+   * the content hashes decide, so touching a file without editing it
+   * does not trigger re-chunking.
    */
-  async indexDocument(document: Document): Promise<void> {
-    // Store the document
-    this.store.add(document);
+  protected hasChanged(stored: StoredDocument, document: Document): boolean {
+    const updatedAt = document.metadata.updatedAt;
+    if (updatedAt && updatedAt === stored.metadata.updatedAt) {
+      return false;
+    }
+    return stored.contentHash !== contentHash(document);
+  }
 
+  /**
+   * Index a document, replacing the chunks of any previous version
+   *
+   * Chunks are embedded before anything is replaced, so when embedding
+   * fails the previous version stays indexed and the error is thrown.
+   */
+  async indexDocument(document: Document): Promise<void> {
     // Chunk the document
     const chunks = this.chunking.chunk(document);
 
+    // Embed chunks for semantic retrieval
+    const vectors = this.embedder && this.vectorIndex && chunks.length > 0
+      ? await this.embedder.embed(chunks.map(c => c.content))
+      : undefined;
+    const existed = this.store.has(document.id);
+
+    // Drop stale chunks of the previous version
+    this.index.removeDocument(document.id);
+    this.vectorIndex?.removeDocument(document.id);
+
+    // Store the document
+    this.store.add(document);
+
     // Index each chunk
     for (const chunk of chunks) {
       this.index.add(chunk);
     }
+    if (vectors) {
+      chunks.forEach((chunk, i) => this.vectorIndex!.add(chunk, vectors[i]));
+    }
 
     this.logger.debug({
       documentId: document.id,
       chunkCount: chunks.length,
     }, 'Document indexed');
+
+    this.emitDocumentChange({
+      type: existed ? 'updated' : 'added',
+      id: document.id,
+      source: document.metadata.source,
+    });
+  }
+
+  /**
+   * Remove a document and its chunks
+   */
+  removeDocument(id: string): boolean {
+    const source = this.store.get(id)?.metadata.source;
+    const removed = this.store.delete(id);
+    const chunkCount = this.index.removeDocument(id);
+    this.vectorIndex?.removeDocument(id);
+
+    if (removed) {
+      this.logger.debug({ documentId: id, chunkCount }, 'Document removed');
+      this.emitDocumentChange({ type: 'removed', id, source: source! });
+    }
+    return removed;
+  }
+
+  /**
+   * Run a change to the stored documents once earlier changes are done
+   *
+   * Syncs, watched source changes and agent writes share one queue, so
+   * index updates never interleave.
+   */
+  protected enqueueChange<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.changeQueue.then(task);
+    this.changeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Get all stored documents
+   */
+  getDocuments(): StoredDocument[] {
+    return this.store.all();
+  }
+
+  /**
+   * Listen for documents being added, updated or removed
+   *
+   * @returns a function that removes the listener
+   */
+  onDocumentChange(listener: DocumentChangeListener): () => void {
+    this.documentListeners.add(listener);
+    return () => {
+      this.documentListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify document change listeners; a failing listener does not stop
+   * indexing
+   */
+  protected emitDocumentChange(change: DocumentChange): void {
+    for (const listener of this.documentListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.logger.warn({ documentId: change.id, error }, 'Document change listener failed');
+      }
+    }
   }
 
   /**
    * Search for knowledge
+   *
+   * Defaults to hybrid retrieval when an embedding provider is set,
+   * keyword retrieval otherwise. With a reranker, the top candidates of
+   * retrieval are rescored; then overlapping hits of a document can be
+   * collapsed into passages and the order diversified before the
+   * results are cut to the limit.
    */
   async search(query: KnowledgeQuery): Promise<KnowledgeResult> {
     const startTime = Date.now();
+    const timings: Record<string, number> = {};
+    const limit = query.limit || this.providerConfig.maxResults || 10;
+    const mode = query.mode ?? (this.vectorIndex ? 'hybrid' : 'keyword');
+    // Keyword scores and cosine similarities live on different scales
+    const keywordThreshold = query.threshold ?? this.providerConfig.minScore ?? 0;
+    const semanticThreshold = (mode === 'semantic' ? query.threshold : undefined) ??
+      this.providerConfig.semanticMinScore ?? 0;
+    const diversity = this.providerConfig.diversity || {};
+    const diversify = query.diversify ?? diversity.enabled ?? false;
+    const collapse = (query.collapse ?? diversity.collapse ?? 'none') === 'document';
 
-    const results = this.index.search(
-      query.query,
-      query.limit || this.providerConfig.maxResults || 10,
-      query.filters
-    );
+    // Later stages need more candidates than are returned
+    let candidates = limit;
+    if (this.reranker) candidates = Math.max(candidates, this.providerConfig.rerank?.candidates ?? 50);
+    if (diversify || collapse) candidates = Math.max(candidates, limit * 3);
+
+    let results: Array<SearchResult & { ranks?: Record<string, number> }>;
+    let bestKeywordScore: number | undefined;
+
+    if (mode === 'keyword') {
+      const keyword = await timed(timings, 'keyword', () => this.keywordSearch(query, candidates));
+      bestKeywordScore = keyword[0]?.score ?? 0;
+      results = keyword.filter(r => r.score >= keywordThreshold);
+    } else if (mode === 'semantic') {
+      results = (await timed(timings, 'semantic', () => this.semanticSearch(query, candidates)))
+        .filter(r => r.score >= semanticThreshold);
+    } else {
+      // Apply each retriever's threshold to its own scores, then fuse by rank
+      const depth = Math.max(limit * 4, 20, candidates);
+      const hybrid = this.providerConfig.hybrid || {};
+      const [keyword, semantic] = await Promise.all([
+        timed(timings, 'keyword', () => this.keywordSearch(query, depth)),
+        timed(timings, 'semantic', () => this.semanticSearch(query, depth)),
+      ]);
+      bestKeywordScore = keyword[0]?.score ?? 0;
+
+      const fusionStart = performance.now();
+      results = reciprocalRankFusion([
+        {
+          name: 'keyword',
+          results: keyword.filter(r => r.score >= keywordThreshold),
+          weight: hybrid.keywordWeight ?? 1,
+        },
+        {
+          name: 'semantic',
+          results: semantic.filter(r => r.score >= semanticThreshold),
+          weight: hybrid.semanticWeight ?? 1,
+        },
+      ], hybrid.rrfK ?? 60).slice(0, candidates);
+      timings.fusion = elapsedSince(fusionStart);
+    }
+
+    if (this.reranker && results.length > 1) {
+      const reranker = this.reranker;
+      const reranked = results;
+      results = await timed(timings, 'rerank', () => this.rerank(reranker, query.query, reranked));
+    }
+
+    if (collapse) {
+      const collapsible = results;
+      results = await timed(timings, 'collapse', () =>
+        collapseByDocument(collapsible, documentId => this.store.get(documentId)?.content));
+    }
+    if (diversify) {
+      const ranked = results;
+      results = await timed(timings, 'diversify', () =>
+        maximalMarginalRelevance(ranked, { lambda: diversity.lambda, limit }));
+    }
+    results = results.slice(0, limit);
 
-    // Filter by score threshold
-    const threshold = query.threshold || this.providerConfig.minScore || 0.5;
-    const filteredResults = results.filter(r => r.score >= threshold);
+    // Only empty or weak results get suggestions; rare words are only questioned when nothing was found
+    const weak = results.length === 0 || (bestKeywordScore !== undefined && bestKeywordScore < WEAK_MATCH_SCORE);
+    const suggestions = weak ? this.index.suggest(query.query, results.length === 0) : [];
 
     return {
-      chunks: filteredResults.map(r => ({
+      chunks: results.map(r => ({
         chunk: r.chunk,
         score: r.score,
         highlights: r.highlights,
+        ranks: r.ranks,
       })),
-      totalCount: filteredResults.length,
+      totalCount: results.length,
       queryTimeMs: Date.now() - startTime,
+      timings,
+      ...(suggestions.length > 0 ? { suggestions } : {}),
     };
   }
 
+  /**
+   * Assemble prompt-ready context for a query within a token budget
+   *
+   * Searches with hits collapsed per document, widens each hit by
+   * `expand` neighboring chunks (merging passages that then overlap),
+   * and packs the passages best first. A passage that does not fit is
+   * retried without its neighbors. Any hit qualifies unless a threshold
+   * is given: questions score low on filler words, so the ranking and
+   * the token budget pick the passages.
+   */
+  async getContext(request: ContextRequest): Promise<ContextResult> {
+    const maxTokens = request.maxTokens ?? 4000;
+    const expand = request.expand ?? 1;
+    const documentContent = (documentId: string) => this.store.get(documentId)?.content;
+
+    const { chunks } = await this.search({
+      query: request.query,
+      mode: request.mode,
+      filters: request.filters,
+      limit: request.maxResults ?? 20,
+      threshold: request.threshold ?? 0,
+      collapse: 'document',
+    });
+    const hits: SearchResult[] = chunks.map(({ chunk, score, highlights }) => ({ chunk, score, highlights }));
+
+    // Neighbors take the score of their hit, so passages rank as their best hit
+    const neighbors = hits.flatMap(hit => this.neighborChunks(hit.chunk, expand)
+      .map(chunk => ({ chunk, score: hit.score })));
+    const passages = collapseByDocument([...hits, ...neighbors], documentContent);
+
+    const candidates = passages.map(passage => {
+      const inside = hits.filter(hit =>
+        hit.chunk.documentId === passage.chunk.documentId &&
+        hit.chunk.startOffset >= passage.chunk.startOffset &&
+        hit.chunk.endOffset <= passage.chunk.endOffset
+      );
+      const length = (result: SearchResult) => result.chunk.endOffset - result.chunk.startOffset;
+      const bare = collapseByDocument(inside, documentContent).filter(hit => length(hit) < length(passage));
+      return [passage, ...bare];
+    });
+
+    return packContext(candidates, { maxTokens, tokenizer: this.tokenizer });
+  }
+
+  /**
+   * Chunks within `distance` positions of a chunk in its document
+   *
+   * A collapsed passage counts from its first and last merged chunk.
+   */
+  protected neighborChunks(chunk: DocumentChunk, distance: number): DocumentChunk[] {
+    if (distance <= 0) return [];
+
+    const siblings = this.index.getDocumentChunks(chunk.documentId);
+    const merged = Array.isArray(chunk.metadata.collapsedChunkIds)
+      ? new Set(chunk.metadata.collapsedChunkIds as string[])
+      : new Set([chunk.id]);
+    const positions = siblings
+      .map((sibling, i) => (merged.has(sibling.id) ? i : -1))
+      .filter(i => i >= 0);
+    if (positions.length === 0) return [];
+
+    const first = Math.max(0, positions[0] - distance);
+    const last = Math.min(siblings.length - 1, positions[positions.length - 1] + distance);
+    return siblings.slice(first, last + 1).filter(sibling => !merged.has(sibling.id));
+  }
+
+  /**
+   * Rescore results with a reranker, most relevant first
+   *
+   * Keeps the first-stage order if the reranker fails, so a model
+   * outage degrades ranking rather than search.
+   */
+  protected async rerank<T extends SearchResult>(reranker: Reranker, query: string, results: T[]): Promise<T[]> {
+    try {
+      const scores = await reranker.rerank(query, results);
+      return results
+        .map((result, i) => ({ ...result, score: scores[i] ?? result.score }))
+        .sort((a, b) => b.score - a.score);
+    } catch (error) {
+      this.logger.warn({ reranker: reranker.name, error }, 'Reranking failed, keeping first-stage order');
+      return results;
+    }
+  }
+
+  /**
+   * Keyword retrieval over the search index
+   */
+  protected keywordSearch(query: KnowledgeQuery, limit: number): SearchResult[] {
+    return this.index.search(query.query, limit, query.filters);
+  }
+
+  /**
+   * Dense retrieval over the vector index
+   *
+   * Embeds the plain text of the query. Excluded terms and field scopes
+   * are resolved against the search index and limit the candidates, so
+   * fusion cannot bring back chunks keyword retrieval rules out.
+   */
+  protected async semanticSearch(query: KnowledgeQuery, limit: number): Promise<SearchResult[]> {
+    if (!this.embedder || !this.vectorIndex) {
+      throw new Error('Semantic search requires an embedding provider');
+    }
+
+    const text = queryText(parseQuery(query.query));
+    if (!text) return [];
+
+    const [vector] = await this.embedder.embed([text]);
+    return this.vectorIndex.search(vector, limit, query.filters, this.index.scopeOf(query.query));
+  }
+
+  /**
+   * Why a retrieval mode cannot be served, if it cannot
+   */
+  private unsupportedModeError(mode: SearchMode | undefined): string | undefined {
+    if (mode && mode !== 'keyword' && !this.vectorIndex) {
+      return `Mode '${mode}' requires an embedding provider; use mode 'keyword'`;
+    }
+    return undefined;
+  }
+
   /**
    * Get a document by ID
    */
@@ -203,7 +719,8 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
           connected: source.isConnected(),
           documentCount: count,
         });
-      } catch (error) {
+      } catch (caught) {
+        const error = source.redactError(caught);
         statuses.push({
           name,
           connected: source.isConnected(),
@@ -225,30 +742,193 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
       name: 'search',
       description: 'Search the knowledge base',
       inputSchema: z.object({
-        query: z.string().describe('Search query'),
+        query: z.string().describe(
+          'Search query. Supports "exact phrases", +required and -excluded terms, AND/OR, ' +
+          'parentheses and field prefixes (title:, content:, tag:, source:, type:, language:, path:)'
+        ),
+        mode: SearchModeSchema.optional()
+          .describe('Retrieval mode (defaults to hybrid when embeddings are enabled)'),
         limit: z.number().optional().describe('Maximum results'),
-        filters: z.object({
-          source: z.string().optional(),
-          type: z.enum(['text', 'markdown', 'code', 'json', 'html']).optional(),
-          tags: z.array(z.string()).optional(),
-          language: z.string().optional(),
-        }).optional(),
+        filters: SearchFiltersSchema.optional().describe('Conditions results must meet'),
+        diversify: z.boolean().optional().describe('Prefer results that add new information over near-duplicates'),
+        collapse: CollapseModeSchema.optional()
+          .describe("'document' merges overlapping hits of one document into a single passage"),
       }),
       handler: async (input) => {
-        return this.search(input);
+        const modeError = this.unsupportedModeError(input.mode);
+        if (modeError) return { error: modeError };
+
+        try {
+          return await this.search(input);
+        } catch (error) {
+          if (error instanceof QuerySyntaxError) {
+            return { error: `Invalid query: ${error.message}` };
+          }
+          throw error;
+        }
+      },
+    }));
+
+    // Context assembly tool
+    this.registerTool(createToolHandler({
+      name: 'get-context',
+      description: 'Get the most relevant passages for a question as one cited block within a token budget',
+      inputSchema: z.object({
+        query: z.string().describe('Question or search query (same syntax as search)'),
+        maxTokens: z.number().int().min(1).optional().describe('Token budget (default: 4000)'),
+        mode: SearchModeSchema.optional().describe('Retrieval mode'),
+        filters: SearchFiltersSchema.optional().describe('Conditions passages must meet'),
+        expand: z.number().int().min(0).optional()
+          .describe('Neighboring chunks to include around each hit (default: 1)'),
+        threshold: z.number().min(0).optional().describe('Minimum hit score (default: 0, any hit)'),
+      }),
+      handler: async (input) => {
+        const modeError = this.unsupportedModeError(input.mode);
+        if (modeError) return { error: modeError };
+
+        try {
+          return await this.getContext(input);
+        } catch (error) {
+          if (error instanceof QuerySyntaxError) {
+            return { error: `Invalid query: ${error.message}` };
+          }
+          throw error;
+        }
       },
     }));
 
     // Retrieve document tool
     this.registerTool(createToolHandler({
       name: 'retrieve',
-      description: 'Retrieve a specific document by ID',
+      description: 'Retrieve a specific document by ID, or a passage of it by offsets',
       inputSchema: z.object({
         id: z.string().describe('Document ID'),
+        startOffset: z.number().int().min(0).optional().describe('Start of the passage (chunk startOffset)'),
+        endOffset: z.number().int().min(0).optional().describe('End of the passage (chunk endOffset)'),
       }),
       handler: async (input) => {
         const doc = this.getDocument(input.id);
-        return doc || { error: 'Document not found' };
+        if (doc && (input.startOffset !== undefined || input.endOffset !== undefined)) {
+          const start = Math.min(input.startOffset ?? 0, doc.content.length);
+          const end = Math.min(Math.max(input.endOffset ?? doc.content.length, start), doc.content.length);
+          return { ...doc, content: doc.content.slice(start, end), startOffset: start, endOffset: end };
+        }
+        if (doc) return doc;
+
+        const tombstone = this.store.getTombstone(input.id);
+        return tombstone
+          ? { error: 'Document was removed', removedAt: tombstone.removedAt }
+          : { error: 'Document not found' };
+      },
+    }));
+
+    // Agent write tools
+    this.registerTool(createToolHandler({
+      name: 'ingest',
+      description: 'Add a document to the knowledge base, e.g. notes or findings worth keeping',
+      inputSchema: z.object({
+        id: z.string().min(1).optional().describe('Document ID (generated when omitted)'),
+        title: z.string().optional().describe('Document title'),
+        content: z.string().min(1).describe('Document content'),
+        type: DocumentTypeSchema.optional().describe('Document type (default: text)'),
+        source: z.string().min(1).optional().describe("Source name to group the document under (default: 'agent')"),
+        metadata: AgentMetadataSchema.optional().describe('Tags, language, path and other metadata'),
+      }),
+      handler: async (input) => {
+        const source = input.source ?? AGENT_SOURCE;
+        if (this.sources.has(source)) {
+          return { error: `Source '${source}' is synced from a registered source; choose another source name` };
+        }
+        // Such IDs would collide with documents a sync adds later
+        const reserved = input.id && Array.from(this.sources.keys()).find(name => input.id!.startsWith(`${name}:`));
+        if (reserved) {
+          return { error: `Document IDs starting with '${reserved}:' are reserved for source '${reserved}'` };
+        }
+
+        const parsed = DocumentSchema.safeParse({
+          id: input.id ?? `${source}:${crypto.randomUUID()}`,
+          type: input.type ?? 'text',
+          title: input.title,
+          content: input.content,
+          metadata: {
+            ...input.metadata,
+            source,
+            origin: 'agent',
+            createdAt: new Date().toISOString(),
+          },
+        });
+        if (!parsed.success) {
+          return { error: `Invalid document: ${formatIssues(parsed.error)}` };
+        }
+        const document = parsed.data as Document;
+
+        return this.enqueueChange(async () => {
+          if (this.store.has(document.id)) {
+            return { error: `Document '${document.id}' already exists; use update-document to change it` };
+          }
+
+          await this.indexDocument(document);
+          await this.saveSnapshot();
+          return { id: document.id, source, chunkCount: this.index.getDocumentChunks(document.id).length };
+        });
+      },
+    }));
+
+    this.registerTool(createToolHandler({
+      name: 'update-document',
+      description: 'Update a document added with ingest; omitted fields keep their values',
+      inputSchema: z.object({
+        id: z.string().describe('Document ID'),
+        title: z.string().optional().describe('New title'),
+        content: z.string().min(1).optional().describe('New content'),
+        type: DocumentTypeSchema.optional().describe('New document type'),
+        metadata: AgentMetadataSchema.optional().describe('Metadata to merge into the current metadata'),
+      }),
+      handler: async (input) => {
+        return this.enqueueChange(async () => {
+          const stored = this.store.get(input.id);
+          const error = agentWriteError(input.id, stored);
+          if (error) return { error };
+
+          const parsed = DocumentSchema.safeParse({
+            id: stored!.id,
+            type: input.type ?? stored!.type,
+            title: input.title ?? stored!.title,
+            content: input.content ?? stored!.content,
+            metadata: {
+              ...stored!.metadata,
+              ...input.metadata,
+              source: stored!.metadata.source,
+              origin: 'agent',
+              updatedAt: new Date().toISOString(),
+            },
+          });
+          if (!parsed.success) {
+            return { error: `Invalid document: ${formatIssues(parsed.error)}` };
+          }
+
+          await this.indexDocument(parsed.data as Document);
+          await this.saveSnapshot();
+          return { id: input.id, chunkCount: this.index.getDocumentChunks(input.id).length };
+        });
+      },
+    }));
+
+    this.registerTool(createToolHandler({
+      name: 'delete-document',
+      description: 'Delete a document added with ingest',
+      inputSchema: z.object({
+        id: z.string().describe('Document ID'),
+      }),
+      handler: async (input) => {
+        return this.enqueueChange(async () => {
+          const error = agentWriteError(input.id, this.store.get(input.id));
+          if (error) return { error };
+
+          this.removeDocument(input.id);
+          await this.saveSnapshot();
+          return { id: input.id, deleted: true };
+        });
       },
     }));
 
@@ -280,14 +960,13 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
             logger: this.logger,
             requestId: crypto.randomUUID(),
           };
-          const result = await source.fetchDocuments(context);
-          for (const doc of result.documents) {
-            await this.indexDocument(doc);
-          }
-          return { synced: result.documents.length, source: input.source };
+          const stats = await this.syncSource(source, context);
+          await this.saveSnapshot();
+          return { source: input.source, ...stats };
         } else {
-          await this.syncSources();
-          return { synced: true };
+          const stats = await this.syncSources();
+          await this.saveSnapshot();
+          return stats;
         }
       },
     }));
@@ -325,26 +1004,151 @@ export abstract class BaseKnowledgeProvider extends BaseSubAgent {
     return this.executeTool(request.type, request, requestId);
   }
 
+  /**
+   * Restore documents and indexes from the last snapshot
+   *
+   * @returns true if a snapshot was restored
+   */
+  async loadSnapshot(): Promise<boolean> {
+    if (!this.snapshots) return false;
+
+    try {
+      const snapshot = await this.snapshots.load();
+      if (!snapshot) return false;
+
+      this.store.restore(snapshot.store);
+      this.index.restore(snapshot.index);
+
+      if (this.embedder && this.vectorIndex) {
+        if (snapshot.vectors?.embedder === this.embedder.name) {
+          this.vectorIndex.restore(snapshot.vectors.index);
+        } else {
+          // Vectors from another embedder are incomparable; re-embed everything
+          await this.reembedAll();
+        }
+      }
+
+      this.logger.info({
+        documentCount: this.store.count(),
+        chunkCount: this.index.count(),
+        savedAt: snapshot.savedAt,
+      }, 'Snapshot restored');
+      return true;
+    } catch (error) {
+      this.logger.warn({ error }, 'Failed to restore snapshot, starting cold');
+      this.store.clear();
+      this.index.clear();
+      this.vectorIndex?.clear();
+      return false;
+    }
+  }
+
+  /**
+   * Write the current documents and indexes to disk
+   *
+   * Tombstones older than `tombstoneRetentionDays` are dropped first.
+   */
+  async saveSnapshot(): Promise<void> {
+    const retentionDays = this.providerConfig.tombstoneRetentionDays ?? 30;
+    const pruned = this.store.pruneTombstones(new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+    if (pruned > 0) {
+      this.logger.debug({ pruned }, 'Expired tombstones pruned');
+    }
+
+    if (!this.snapshots) return;
+
+    try {
+      await this.snapshots.save({
+        store: this.store.snapshot(),
+        index: this.index.snapshot(),
+        vectors: this.embedder && this.vectorIndex
+          ? { embedder: this.embedder.name, index: this.vectorIndex.snapshot() }
+          : undefined,
+      });
+      this.logger.debug({ path: this.snapshots.filePath }, 'Snapshot saved');
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to save snapshot');
+    }
+  }
+
+  /**
+   * Rebuild the vector index from the chunks in the search index
+   */
+  private async reembedAll(): Promise<void> {
+    if (!this.embedder || !this.vectorIndex) return;
+
+    this.vectorIndex.clear();
+    const chunks = this.index.getChunks();
+    if (chunks.length === 0) return;
+
+    const vectors = await this.embedder.embed(chunks.map(c => c.content));
+    chunks.forEach((chunk, i) => this.vectorIndex!.add(chunk, vectors[i]));
+  }
+
   /**
    * Initialize the provider
    */
   async initialize(): Promise<void> {
+    await this.loadSnapshot();
     await this.initializeSources();
     await this.syncSources();
+    await this.saveSnapshot();
   }
 
   /**
    * Shutdown the provider
    */
   async shutdown(): Promise<void> {
+    for (const source of this.sources.values()) {
+      source.unwatch();
+    }
+    await this.changeQueue;
+
     for (const [name, source] of this.sources) {
       try {
         await source.disconnect();
         this.logger.debug({ source: name }, 'Source disconnected');
       } catch (error) {
-        this.logger.warn({ source: name, error }, 'Error disconnecting source');
+        this.logger.warn({ source: name, error: source.redactError(error) }, 'Error disconnecting source');
       }
     }
+    await this.saveSnapshot();
     await super.shutdown();
   }
 }
+
+/**
+ * Run a search stage, recording its duration in milliseconds
+ */
+async function timed<T>(timings: Record<string, number>, stage: string, run: () => T | Promise<T>): Promise<T> {
+  const start = performance.now();
+  try {
+    return await run();
+  } finally {
+    timings[stage] = elapsedSince(start);
+  }
+}
+
+/**
+ * Why a document may not be changed by an agent, if it may not
+ *
+ * Only documents agents wrote can be changed: the next sync would
+ * overwrite edits to synced documents and restore deleted ones.
+ */
+function agentWriteError(id: string, stored: StoredDocument | undefined): string | undefined {
+  if (!stored) return `Document '${id}' not found`;
+  if (stored.metadata.origin !== 'agent') {
+    return `Document '${id}' is synced from source '${stored.metadata.source}' and cannot be changed by agents`;
+  }
+  return undefined;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+function elapsedSince(start: number): number {
+  return Math.round((performance.now() - start) * 100) / 100;
+}
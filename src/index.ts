@@ -5,7 +5,11 @@
  */
 
 // Base knowledge provider class
-export { BaseKnowledgeProvider } from './base/BaseKnowledgeProvider.js';
+export {
+  BaseKnowledgeProvider,
+  type DocumentChange,
+  type DocumentChangeListener,
+} from './base/BaseKnowledgeProvider.js';
 
 // Source abstractions
 export {
@@ -14,7 +18,23 @@ export {
   ApiSource,
   type SourceResult,
   type SourceContext,
+  type SourceChange,
+  type SourceChangeListener,
+  type FileSourceOptions,
+  type ApiSourceOptions,
+  type ApiResponse,
+  type PaginationOptions,
+  type CursorPaginationOptions,
+  type OffsetPaginationOptions,
 } from './sources/BaseSource.js';
+export {
+  MarkdownDirectorySource,
+  type MarkdownDirectorySourceOptions,
+} from './sources/MarkdownDirectorySource.js';
+export {
+  CodeRepositorySource,
+  type CodeRepositorySourceOptions,
+} from './sources/CodeRepositorySource.js';
 
 // Types
 export * from './types/index.js';
@@ -23,17 +43,168 @@ export * from './types/index.js';
 export {
   createKnowledgeServer,
   startKnowledgeProvider,
+  type KnowledgeServer,
   type KnowledgeServerOptions,
+  type TransportOptions,
+  type StdioTransportOptions,
+  type HttpTransportOptions,
 } from './server.js';
+export {
+  registerKnowledgeResources,
+  documentUri,
+  DOCUMENT_URI_TEMPLATE,
+} from './resources.js';
+export { registerKnowledgePrompts } from './prompts.js';
 export { 
   DocumentStore,
   type StoredDocument,
+  type Tombstone,
+  type DocumentStoreSnapshot,
 } from './utils/store.js';
+export {
+  contentHash,
+} from './utils/hash.js';
 export {
   SearchIndex,
   type SearchResult,
-  type SearchFilters,
+  type SearchField,
+  type SearchIndexSnapshot,
+  type FieldPositions,
 } from './utils/search.js';
+export {
+  Analyzer,
+  ENGLISH_STOP_WORDS,
+  identifierSplitFilter,
+  lowercaseFilter,
+  stopWordFilter,
+  synonymFilter,
+  stemFilter,
+  porterStem,
+  type AnalyzedToken,
+  type TokenFilter,
+} from './utils/analysis.js';
+export {
+  TermDictionary,
+  editDistance,
+  autoMaxEdits,
+  type TermCandidate,
+} from './utils/fuzzy.js';
+export {
+  HeuristicReranker,
+  type Reranker,
+  type HeuristicRerankerOptions,
+  type HeuristicRerankerWeights,
+} from './utils/rerank.js';
+export {
+  maximalMarginalRelevance,
+  collapseByDocument,
+  chunkSimilarity,
+  type MmrOptions,
+} from './utils/diversity.js';
+export { packContext, type ContextPackOptions } from './utils/context.js';
+export {
+  parseQuery,
+  queryText,
+  QuerySyntaxError,
+  type QueryNode,
+  type QueryClause,
+  type QueryField,
+  type QueryOccur,
+} from './utils/query.js';
+export {
+  FilterIndex,
+  matchesFilters,
+  compareVersions,
+} from './utils/filters.js';
+export {
+  VectorIndex,
+  type VectorIndexSnapshot,
+} from './utils/vector.js';
+export {
+  SnapshotStore,
+  SnapshotError,
+  SNAPSHOT_VERSION,
+  type KnowledgeSnapshot,
+} from './utils/persistence.js';
+export {
+  reciprocalRankFusion,
+  type RankedList,
+  type FusedResult,
+} from './utils/fusion.js';
+export {
+  HashingEmbedder,
+  cosineSimilarity,
+  type EmbeddingProvider,
+  type HashingEmbedderOptions,
+} from './utils/embedding.js';
 export {
   ChunkingUtils,
+  type ChunkingOptions,
 } from './utils/chunking.js';
+export {
+  ApproximateTokenizer,
+  CharacterTokenizer,
+  type Tokenizer,
+} from './utils/tokenizer.js';
+export {
+  extractSymbols,
+  detectLanguage,
+  isSupportedLanguage,
+  qualifiedSymbolName,
+  maskCode,
+  type CodeSymbol,
+  type SymbolKind,
+  type CodeLanguage,
+} from './utils/symbols.js';
+export {
+  parseJsonRanges,
+  childPointer,
+  JsonSyntaxError,
+  type JsonNode,
+  type JsonMember,
+} from './utils/json.js';
+export {
+  extractHtmlBlocks,
+  decodeEntities,
+  type HtmlBlock,
+} from './utils/html.js';
+export {
+  parseFrontMatter,
+  parseYamlSubset,
+  type FrontMatterResult,
+} from './utils/frontmatter.js';
+export {
+  ApiRequestError,
+  TokenBucket,
+  RETRYABLE_STATUSES,
+  backoffDelay,
+  parseRetryAfter,
+  parseLinkHeader,
+  sleep,
+  type RetryOptions,
+  type TokenBucketOptions,
+} from './utils/http.js';
+export {
+  TokenAuth,
+  BearerTokenAuth,
+  OAuth2ClientCredentialsAuth,
+  BasicAuth,
+  ApiKeyAuth,
+  AuthError,
+  resolveSecret,
+  redactSecrets,
+  redactErrorSecrets,
+  type AuthStrategy,
+  type AuthRequest,
+  type AccessToken,
+  type SecretSource,
+  type BearerTokenAuthOptions,
+  type OAuth2ClientCredentialsOptions,
+  type BasicAuthOptions,
+  type ApiKeyAuthOptions,
+} from './utils/auth.js';
+export {
+  globToRegExp,
+  matchesAnyGlob,
+  IgnoreRules,
+} from './utils/glob.js';
@@ -0,0 +1,66 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { BaseKnowledgeProvider } from './base/BaseKnowledgeProvider.js';
+import { QuerySyntaxError } from './utils/query.js';
+
+/**
+ * Register the knowledge prompts with an MCP server
+ *
+ * - `answer-with-context`: a user question preceded by the passages
+ *   `get-context` retrieves for it, with instructions to answer from
+ *   them and cite them by number
+ */
+export function registerKnowledgePrompts(server: McpServer, provider: BaseKnowledgeProvider): void {
+  server.registerPrompt(
+    'answer-with-context',
+    {
+      description: 'Answer a question from the knowledge base, citing the passages used',
+      argsSchema: {
+        question: z.string().describe('The question to answer'),
+        maxTokens: z.string().optional().describe('Token budget of the retrieved context (default: 4000)'),
+      },
+    },
+    async ({ question, maxTokens }) => {
+      const budget = maxTokens ? Number.parseInt(maxTokens, 10) : undefined;
+      const context = await getContextForQuestion(provider, question, Number.isNaN(budget) ? undefined : budget);
+
+      const text = context.citations.length > 0
+        ? [
+          'Answer the question using only the context below. Cite the passages you use by their',
+          'number, e.g. [1]. If the context does not contain the answer, say so.',
+          '',
+          'Context:',
+          context.context,
+          '',
+          `Question: ${question}`,
+        ].join('\n')
+        : [
+          'The knowledge base has no passages relevant to this question. Say so rather than guessing.',
+          '',
+          `Question: ${question}`,
+        ].join('\n');
+
+      return {
+        description: `Question with ${context.citations.length} retrieved passages`,
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+      };
+    }
+  );
+}
+
+/**
+ * Retrieve context for a natural-language question
+ *
+ * Questions are not written in query syntax; one that fails to parse
+ * (a stray quote, a trailing "NOT") is searched by its words instead.
+ */
+async function getContextForQuestion(provider: BaseKnowledgeProvider, question: string, maxTokens?: number) {
+  try {
+    return await provider.getContext({ query: question, maxTokens });
+  } catch (error) {
+    if (!(error instanceof QuerySyntaxError)) throw error;
+
+    const words = question.toLowerCase().replace(/[^\p{L}\p{N}_\s]+/gu, ' ').trim();
+    return provider.getContext({ query: words || question, maxTokens });
+  }
+}
@@ -0,0 +1,131 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from '@xorng/template-base';
+import type { BaseKnowledgeProvider, DocumentChange } from './base/BaseKnowledgeProvider.js';
+import type { StoredDocument } from './utils/store.js';
+import type { DocumentType } from './types/index.js';
+
+/**
+ * URI template of document resources
+ *
+ * `{+id}` because document IDs usually contain slashes (`docs:guides/install.md`).
+ */
+export const DOCUMENT_URI_TEMPLATE = 'knowledge://{source}/{+id}';
+
+const MIME_TYPES: Record<DocumentType, string> = {
+  text: 'text/plain',
+  markdown: 'text/markdown',
+  code: 'text/plain',
+  json: 'application/json',
+  html: 'text/html',
+  practice: 'text/markdown',
+  'style-guide': 'text/markdown',
+};
+
+/**
+ * Delay for coalescing list-changed notifications during a sync
+ */
+const LIST_CHANGED_DELAY_MS = 100;
+
+/**
+ * Resource URI of a stored document, e.g.
+ * `knowledge://docs/docs%3Aguides/install.md`
+ */
+export function documentUri(document: Pick<StoredDocument, 'id' | 'metadata'>): string {
+  const id = document.id.split('/').map(encodeURIComponent).join('/');
+  return `knowledge://${encodeURIComponent(document.metadata.source)}/${id}`;
+}
+
+/**
+ * Expose the provider's documents as MCP resources
+ *
+ * Lists every stored document under `DOCUMENT_URI_TEMPLATE` and reads
+ * their content. Clients are told when documents are added or removed
+ * (list changed, coalesced per sync) and when a document they
+ * subscribed to is updated or removed.
+ *
+ * @returns a function that stops the change notifications; call it when
+ * the server closes
+ */
+export function registerKnowledgeResources(
+  server: McpServer,
+  provider: BaseKnowledgeProvider,
+  logger: Logger
+): () => void {
+  const subscriptions = new Set<string>();
+
+  server.registerResource(
+    'document',
+    new ResourceTemplate(DOCUMENT_URI_TEMPLATE, {
+      list: async () => ({
+        resources: provider.getDocuments().map(document => ({
+          uri: documentUri(document),
+          name: document.id,
+          title: document.title,
+          description: `${document.type} document from ${document.metadata.source}`,
+          mimeType: MIME_TYPES[document.type],
+        })),
+      }),
+    }),
+    { description: 'Indexed knowledge base documents' },
+    async (uri, variables) => {
+      const id = decodeURIComponent(String(variables.id));
+      const source = decodeURIComponent(String(variables.source));
+      const document = provider.getDocument(id);
+
+      if (!document || document.metadata.source !== source) {
+        throw new McpError(ErrorCode.InvalidParams, `Document not found: ${uri.href}`);
+      }
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: MIME_TYPES[document.type],
+          text: document.content,
+        }],
+      };
+    }
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  let listChanged: NodeJS.Timeout | undefined;
+
+  const onChange = (change: DocumentChange) => {
+    if (!server.isConnected()) return;
+
+    if (change.type !== 'updated') {
+      listChanged ??= setTimeout(() => {
+        listChanged = undefined;
+        if (server.isConnected()) server.sendResourceListChanged();
+      }, LIST_CHANGED_DELAY_MS);
+    }
+
+    const uri = documentUri({ id: change.id, metadata: { source: change.source } });
+    if (change.type !== 'added' && subscriptions.has(uri)) {
+      server.server.sendResourceUpdated({ uri }).catch(error => {
+        logger.warn({ uri, error }, 'Failed to send resource update');
+      });
+    }
+  };
+
+  const unsubscribe = provider.onDocumentChange(onChange);
+  return () => {
+    unsubscribe();
+    if (listChanged) clearTimeout(listChanged);
+    subscriptions.clear();
+  };
+}
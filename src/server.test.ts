@@ -0,0 +1,101 @@
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createKnowledgeServer, type HttpTransportOptions, type KnowledgeServer } from './server.js';
+import { BaseKnowledgeProvider } from './base/BaseKnowledgeProvider.js';
+
+class TestProvider extends BaseKnowledgeProvider {
+  constructor() {
+    super({ name: 'test-provider', version: '1.0.0', description: 'Test provider', capabilities: ['retrieve', 'search'] });
+  }
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } },
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let knowledgeServer: KnowledgeServer | undefined;
+let baseUrl: string;
+
+/**
+ * Start an HTTP server on a free port
+ */
+async function serve(options: Omit<HttpTransportOptions, 'type'> = {}, provider = new TestProvider()): Promise<KnowledgeServer> {
+  knowledgeServer = createKnowledgeServer({ provider, logLevel: 'error', transport: { type: 'http', port: 0, ...options } });
+  await knowledgeServer.start();
+  baseUrl = `http://127.0.0.1:${(knowledgeServer.httpServer!.address() as AddressInfo).port}`;
+  return knowledgeServer;
+}
+
+/**
+ * Open an MCP session
+ */
+async function post(headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(initialize),
+  });
+  await response.text();
+  return response;
+}
+
+async function sessionCount(): Promise<number> {
+  const response = await fetch(`${baseUrl}/readyz`);
+  const { sessions } = await response.json() as { sessions: number };
+  return sessions;
+}
+
+afterEach(async () => {
+  await knowledgeServer?.stop();
+  knowledgeServer = undefined;
+});
+
+describe('createKnowledgeServer over HTTP', () => {
+  it('closes idle sessions', async () => {
+    await serve({ sessionIdleTimeoutMs: 100 });
+
+    const response = await post();
+    expect(response.status).toBe(200);
+    expect(await sessionCount()).toBe(1);
+
+    await wait(300);
+    expect(await sessionCount()).toBe(0);
+
+    const expired = await post({ 'mcp-session-id': response.headers.get('mcp-session-id')! });
+    expect(expired.status).toBe(404);
+  });
+
+  it('rejects sessions beyond the limit', async () => {
+    await serve({ maxSessions: 1 });
+
+    expect((await post()).status).toBe(200);
+    expect((await post()).status).toBe(503);
+    expect(await sessionCount()).toBe(1);
+  });
+
+  it('rejects requests the authenticate hook refuses, but not health checks', async () => {
+    await serve({ authenticate: req => req.headers.authorization === 'Bearer secret' });
+
+    expect((await post()).status).toBe(401);
+    expect((await post({ authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await post({ authorization: 'Bearer secret' })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/healthz`)).status).toBe(200);
+  });
+
+  it('stops listening when the provider fails to initialize', async () => {
+    class FailingProvider extends TestProvider {
+      async initialize(): Promise<void> {
+        throw new Error('Index unavailable');
+      }
+    }
+    const failing = createKnowledgeServer({ provider: new FailingProvider(), logLevel: 'error', transport: { type: 'http', port: 0 } });
+
+    await expect(failing.start()).rejects.toThrow('Index unavailable');
+    expect(failing.httpServer!.listening).toBe(false);
+  });
+});
@@ -1,7 +1,50 @@
+import { randomUUID } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { createLogger, registerTools, type Logger } from '@xorng/template-base';
 import { BaseKnowledgeProvider } from './base/BaseKnowledgeProvider.js';
+import { registerKnowledgeResources } from './resources.js';
+import { registerKnowledgePrompts } from './prompts.js';
+
+/**
+ * Serve over standard input/output, one client per process
+ */
+export interface StdioTransportOptions {
+  type: 'stdio';
+}
+
+/**
+ * Serve over MCP Streamable HTTP (POST requests, SSE streams), shared
+ * by many clients
+ */
+export interface HttpTransportOptions {
+  type: 'http';
+  /** Default: '127.0.0.1' */
+  host?: string;
+  /** Default: 3000 */
+  port?: number;
+  /** Path of the MCP endpoint (default: '/mcp') */
+  path?: string;
+  /** Accepted Host headers; enables DNS rebinding protection when set */
+  allowedHosts?: string[];
+  /** Largest accepted request body in bytes (default: 4 MiB) */
+  maxBodyBytes?: number;
+  /** Close sessions without requests or open streams for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+  /** Most concurrent sessions; further sessions get 503 (default: 100) */
+  maxSessions?: number;
+  /**
+   * Decide whether an MCP request may proceed, e.g. by checking its
+   * `Authorization` header; rejected requests get 401. Health checks are
+   * not authenticated.
+   */
+  authenticate?: (req: IncomingMessage) => boolean | Promise<boolean>;
+}
+
+export type TransportOptions = StdioTransportOptions | HttpTransportOptions;
 
 /**
  * Options for creating a knowledge provider server
@@ -9,60 +52,303 @@ import { BaseKnowledgeProvider } from './base/BaseKnowledgeProvider.js';
 export interface KnowledgeServerOptions {
   provider: BaseKnowledgeProvider;
   logLevel?: string;
+  /** Default: stdio */
+  transport?: TransportOptions;
 }
 
 /**
- * Create and start an MCP server for a knowledge provider
+ * A knowledge provider server
  */
-export function createKnowledgeServer(options: KnowledgeServerOptions): {
-  server: McpServer;
-  transport: StdioServerTransport;
+export interface KnowledgeServer {
+  /** MCP server of the stdio transport; HTTP sessions each get their own */
+  server?: McpServer;
+  transport?: StdioServerTransport;
+  /** HTTP server of the http transport; listens once started */
+  httpServer?: Server;
   logger: Logger;
   start: () => Promise<void>;
-} {
-  const { provider, logLevel = 'info' } = options;
+  /** Close connections and shut the provider down */
+  stop: () => Promise<void>;
+}
+
+/**
+ * State of one MCP session over HTTP
+ */
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** Requests in progress, including open SSE streams */
+  active: number;
+  /** Closes the session once it has been idle for the timeout */
+  idleTimer: NodeJS.Timeout;
+}
+
+/**
+ * An MCP server with the provider's tools, resources and prompts
+ */
+interface ProviderMcpServer {
+  server: McpServer;
+  /** Stop sending document change notifications */
+  detach: () => void;
+}
+
+/**
+ * Create an MCP server for a knowledge provider
+ *
+ * With the http transport, one process serves many agents over one
+ * index: every MCP session gets its own server and transport, `/healthz`
+ * reports liveness and `/readyz` whether the provider has finished
+ * initializing. Idle sessions are closed and their number is capped.
+ * SIGINT and SIGTERM shut the server down gracefully.
+ */
+export function createKnowledgeServer(options: KnowledgeServerOptions): KnowledgeServer {
+  const { provider, logLevel = 'info', transport: transportOptions = { type: 'stdio' } } = options;
   const metadata = provider.getMetadata();
-  
+
   const logger = createLogger(logLevel, metadata.name);
 
-  const server = new McpServer({
-    name: metadata.name,
-    version: metadata.version,
+  const createMcpServer = (): ProviderMcpServer => {
+    const server = new McpServer({
+      name: metadata.name,
+      version: metadata.version,
+    });
+
+    // Register all provider tools, documents as resources, and prompts
+    registerTools(server, provider.getTools(), logger);
+    const detach = registerKnowledgeResources(server, provider, logger);
+    registerKnowledgePrompts(server, provider);
+    return { server, detach };
+  };
+
+  const sessions = new Map<string, HttpSession>();
+  let ready = false;
+  let stopping: Promise<void> | undefined;
+
+  const stdio = transportOptions.type === 'stdio' ? createMcpServer() : undefined;
+  const server = stdio?.server;
+  const transport = transportOptions.type === 'stdio' ? new StdioServerTransport() : undefined;
+  const httpServer = transportOptions.type === 'http'
+    ? createServer((req, res) => {
+      handleHttpRequest(req, res).catch(error => {
+        logger.error({ error }, 'Error handling HTTP request');
+        if (!res.headersSent) sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      });
+    })
+    : undefined;
+
+  const handleHttpRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const http = transportOptions as HttpTransportOptions;
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === '/healthz') {
+      return sendJson(res, 200, { status: 'ok' });
+    }
+    if (pathname === '/readyz') {
+      return ready && !stopping
+        ? sendJson(res, 200, { status: 'ready', sessions: sessions.size })
+        : sendJson(res, 503, { status: stopping ? 'stopping' : 'initializing' });
+    }
+    if (pathname !== (http.path ?? '/mcp')) {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+    if (http.authenticate && !(await http.authenticate(req))) {
+      return sendJsonRpcError(res, 401, -32000, 'Unauthorized');
+    }
+    if (!ready || stopping) {
+      return sendJsonRpcError(res, 503, -32000, 'Server is not ready');
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) return sendJsonRpcError(res, 404, -32001, 'Session not found');
+
+      // A session is idle once its last request or stream has ended
+      session.active++;
+      res.once('close', () => {
+        session.active--;
+        session.idleTimer.refresh();
+      });
+      return session.transport.handleRequest(req, res);
+    }
+
+    if (req.method !== 'POST') {
+      return sendJsonRpcError(res, 400, -32000, 'Missing session ID');
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req, http.maxBodyBytes ?? 4 * 1024 * 1024));
+    } catch (error) {
+      return sendJsonRpcError(res, 400, -32700, error instanceof Error ? error.message : 'Parse error');
+    }
+
+    if (!isInitializeRequest(body)) {
+      return sendJsonRpcError(res, 400, -32000, 'Missing session ID');
+    }
+    if (sessions.size >= (http.maxSessions ?? 100)) {
+      logger.warn({ sessions: sessions.size }, 'MCP session limit reached');
+      return sendJsonRpcError(res, 503, -32000, 'Too many sessions');
+    }
+
+    // A new session: its ID is assigned while handling the initialize request
+    const { server: sessionServer, detach } = createMcpServer();
+    const sessionTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        const session: HttpSession = {
+          server: sessionServer,
+          transport: sessionTransport,
+          active: 0,
+          // Busy sessions are left open; their last request restarts the timer when it ends
+          idleTimer: setTimeout(() => {
+            if (session.active > 0) return;
+            logger.debug({ sessionId: id }, 'MCP session expired');
+            sessionServer.close().catch(error => logger.warn({ sessionId: id, error }, 'Error closing MCP session'));
+          }, http.sessionIdleTimeoutMs ?? 30 * 60 * 1000).unref(),
+        };
+        sessions.set(id, session);
+        logger.debug({ sessionId: id }, 'MCP session started');
+      },
+      ...(http.allowedHosts ? { allowedHosts: http.allowedHosts, enableDnsRebindingProtection: true } : {}),
+    });
+    sessionTransport.onclose = () => {
+      detach();
+      const id = sessionTransport.sessionId;
+      clearTimeout(id ? sessions.get(id)?.idleTimer : undefined);
+      if (id && sessions.delete(id)) logger.debug({ sessionId: id }, 'MCP session closed');
+    };
+
+    await sessionServer.connect(sessionTransport);
+    await sessionTransport.handleRequest(req, res, body);
+
+    // Initialization was rejected; no session will reuse the server
+    if (!sessionTransport.sessionId || !sessions.has(sessionTransport.sessionId)) {
+      detach();
+      await sessionServer.close();
+    }
+  };
+
+  const listen = (http: HttpTransportOptions) => new Promise<void>((resolve, reject) => {
+    httpServer!.once('error', reject);
+    httpServer!.listen(http.port ?? 3000, http.host ?? '127.0.0.1', () => {
+      httpServer!.off('error', reject);
+      resolve();
+    });
   });
 
-  const transport = new StdioServerTransport();
+  const closeHttpServer = () => new Promise<void>(resolve => {
+    httpServer!.close(() => resolve());
+    httpServer!.closeAllConnections();
+  });
+
+  const stop = () => {
+    stopping ??= (async () => {
+      logger.info('Shutting down...');
 
-  // Register all provider tools
-  registerTools(server, provider.getTools(), logger);
+      for (const [id, session] of sessions) {
+        try {
+          await session.server.close();
+        } catch (error) {
+          logger.warn({ sessionId: id, error }, 'Error closing MCP session');
+        }
+      }
+      sessions.clear();
+
+      if (httpServer?.listening) await closeHttpServer();
+      if (stdio) {
+        stdio.detach();
+        await stdio.server.close();
+      }
+
+      await provider.shutdown();
+    })();
+    return stopping;
+  };
 
   const start = async () => {
-    await provider.initialize();
-    
+    // Handle shutdown
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.once(signal, async () => {
+        logger.info({ signal }, 'Received shutdown signal');
+        try {
+          await stop();
+          process.exit(0);
+        } catch (error) {
+          logger.error({ error }, 'Error during shutdown');
+          process.exit(1);
+        }
+      });
+    }
+
+    // Health checks answer while the provider initializes
+    if (transportOptions.type === 'http') {
+      await listen(transportOptions);
+      logger.info({
+        host: transportOptions.host ?? '127.0.0.1',
+        port: transportOptions.port ?? 3000,
+        path: transportOptions.path ?? '/mcp',
+      }, 'Knowledge provider HTTP server listening');
+    }
+
+    try {
+      await provider.initialize();
+    } catch (error) {
+      // Nothing will serve MCP requests; free the port
+      if (httpServer?.listening) await closeHttpServer();
+      throw error;
+    }
+
     logger.info({
       name: metadata.name,
       version: metadata.version,
       sources: Array.from(provider.getSources().keys()),
+      transport: transportOptions.type,
     }, 'Starting knowledge provider MCP server');
 
-    await server.connect(transport);
-    
-    logger.info('Knowledge provider MCP server connected');
+    if (server && transport) {
+      await server.connect(transport);
+    }
+    ready = true;
 
-    // Handle shutdown
-    process.on('SIGINT', async () => {
-      logger.info('Shutting down...');
-      await provider.shutdown();
-      process.exit(0);
-    });
+    logger.info('Knowledge provider MCP server connected');
   };
 
-  return { server, transport, logger, start };
+  return { server, transport, httpServer, logger, start, stop };
 }
 
 /**
  * Quick start helper for knowledge providers
  */
-export async function startKnowledgeProvider(provider: BaseKnowledgeProvider): Promise<void> {
-  const { start } = createKnowledgeServer({ provider });
+export async function startKnowledgeProvider(
+  provider: BaseKnowledgeProvider,
+  transport?: TransportOptions
+): Promise<void> {
+  const { start } = createKnowledgeServer({ provider, transport });
   await start();
 }
+
+/**
+ * Read a request body as text, up to a size limit
+ */
+async function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new Error(`Request body exceeds ${maxBytes} bytes`);
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -0,0 +1,201 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ApiSource, type ApiSourceOptions, type SourceContext, type SourceResult } from './BaseSource.js';
+import { ApiRequestError } from '../utils/http.js';
+import { BearerTokenAuth } from '../utils/auth.js';
+import type { Document } from '../types/index.js';
+
+/**
+ * An API source exposing its request helpers
+ */
+class TestSource extends ApiSource {
+  constructor(baseUrl: string, options: ApiSourceOptions = {}) {
+    super('api', 'Test API', baseUrl, {}, { timeoutMs: 1000, retry: { minDelayMs: 1, maxDelayMs: 5 }, ...options });
+  }
+
+  async fetchDocuments(): Promise<SourceResult> {
+    return { documents: [] };
+  }
+
+  async fetchDocument(): Promise<Document | null> {
+    return null;
+  }
+
+  async getDocumentCount(): Promise<number> {
+    return 0;
+  }
+
+  get<T>(path: string, init?: RequestInit) {
+    return this.request<T>(path, init);
+  }
+
+  getWithResponse<T>(path: string) {
+    return this.requestWithResponse<T>(path);
+  }
+
+  async collect<T>(pages: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of pages) items.push(item);
+    return items;
+  }
+
+  links<T>(path: string) {
+    return this.collect(this.paginateLinks<T>(path));
+  }
+
+  cursor(path: string) {
+    return this.collect(this.paginateCursor<string, { items: string[]; next: string | null }>(path, {
+      items: page => page.items,
+      nextCursor: page => page.next,
+    }));
+  }
+
+  offset<T>(path: string, pageSize: number) {
+    return this.collect(this.paginateOffset<T>(path, { pageSize }));
+  }
+}
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse, url: URL, hit: number) => void> = {
+  '/flaky': (_req, res, _url, hit) => {
+    if (hit < 3) {
+      res.writeHead(503, { 'retry-after': '0' });
+      res.end();
+      return;
+    }
+    res.end(JSON.stringify({ attempt: hit }));
+  },
+  '/unavailable': (_req, res) => {
+    res.writeHead(503);
+    res.end();
+  },
+  '/slow': (_req, res) => {
+    setTimeout(() => res.destroyed || res.end('{}'), 500);
+  },
+  '/throttled': (_req, res) => {
+    res.writeHead(429, { 'retry-after': '120' });
+    res.end();
+  },
+  '/etag': (req, res) => {
+    if (req.headers['if-none-match'] === '"v1"') {
+      res.writeHead(304);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { etag: '"v1"' });
+    res.end('[1,2]');
+  },
+  '/links': (_req, res, url) => {
+    const page = Number(url.searchParams.get('page') ?? 1);
+    res.writeHead(200, page < 3 ? { link: `</links?page=${page + 1}>; rel="next", </links?page=3>; rel="last"` } : {});
+    res.end(JSON.stringify([page * 10, page * 10 + 1]));
+  },
+  '/cursor': (_req, res, url) => {
+    const cursor = url.searchParams.get('cursor');
+    const next = cursor === null ? 'a' : cursor === 'a' ? 'b' : null;
+    res.end(JSON.stringify({ items: [cursor ?? 'start'], next }));
+  },
+  '/offset': (_req, res, url) => {
+    const offset = Number(url.searchParams.get('offset'));
+    const limit = Number(url.searchParams.get('limit'));
+    res.end(JSON.stringify([1, 2, 3, 4, 5].slice(offset, offset + limit)));
+  },
+  '/protected': (req, res) => {
+    if (req.headers.authorization !== 'Bearer fresh-token') {
+      res.writeHead(401);
+      res.end();
+      return;
+    }
+    res.end('{"ok":true}');
+  },
+};
+
+let server: Server;
+let baseUrl: string;
+let hits: Record<string, number>;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    hits[url.pathname] = (hits[url.pathname] ?? 0) + 1;
+    routes[url.pathname](req, res, url, hits[url.pathname]);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  hits = {};
+});
+
+describe('ApiSource requests', () => {
+  it('retries idempotent requests on 503', async () => {
+    const source = new TestSource(baseUrl);
+
+    await expect(source.get('/flaky')).resolves.toEqual({ attempt: 3 });
+    expect(hits['/flaky']).toBe(3);
+  });
+
+  it('does not retry POST requests', async () => {
+    const source = new TestSource(baseUrl);
+
+    await expect(source.get('/unavailable', { method: 'POST' })).rejects.toMatchObject({ status: 503 });
+    expect(hits['/unavailable']).toBe(1);
+  });
+
+  it('times out each attempt', async () => {
+    const source = new TestSource(baseUrl, { timeoutMs: 50, retry: false });
+    const request = source.get('/slow');
+
+    await expect(request).rejects.toBeInstanceOf(ApiRequestError);
+    await expect(request).rejects.toMatchObject({ status: undefined, retryable: true });
+  });
+
+  it('fails at once when Retry-After exceeds the longest delay', async () => {
+    const source = new TestSource(baseUrl);
+    const started = Date.now();
+
+    await expect(source.get('/throttled')).rejects.toMatchObject({ status: 429, retryAfterMs: 120_000 });
+    expect(hits['/throttled']).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('revalidates cached responses with their ETag', async () => {
+    const source = new TestSource(baseUrl);
+
+    const first = await source.getWithResponse<number[]>('/etag');
+    const second = await source.getWithResponse<number[]>('/etag');
+
+    expect(first).toMatchObject({ status: 200, notModified: false, data: [1, 2] });
+    expect(second).toMatchObject({ status: 304, notModified: true, data: [1, 2] });
+  });
+
+  it('refreshes credentials once after a 401', async () => {
+    const tokens = ['stale-token', 'fresh-token'];
+    const source = new TestSource(baseUrl, { auth: new BearerTokenAuth({ token: async () => tokens.shift()! }) });
+    await source.connect({} as SourceContext);
+
+    await expect(source.get('/protected')).resolves.toEqual({ ok: true });
+    expect(hits['/protected']).toBe(2);
+  });
+});
+
+describe('ApiSource pagination', () => {
+  it('follows Link headers', async () => {
+    await expect(new TestSource(baseUrl).links<number>('/links')).resolves.toEqual([10, 11, 20, 21, 30, 31]);
+  });
+
+  it('follows cursors until there is none', async () => {
+    await expect(new TestSource(baseUrl).cursor('/cursor')).resolves.toEqual(['start', 'a', 'b']);
+  });
+
+  it('pages by offset until a short page', async () => {
+    await expect(new TestSource(baseUrl).offset<number>('/offset', 2)).resolves.toEqual([1, 2, 3, 4, 5]);
+    expect(hits['/offset']).toBe(3);
+  });
+});
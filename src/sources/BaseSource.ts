@@ -1,4 +1,19 @@
+import { createHash } from 'crypto';
+import { readdirSync, statSync, watch as watchFs, type FSWatcher } from 'fs';
+import path from 'path';
 import type { Logger } from '@xorng/template-base';
+import { globToRegExp, matchesAnyGlob, IgnoreRules } from '../utils/glob.js';
+import {
+  ApiRequestError,
+  RETRYABLE_STATUSES,
+  TokenBucket,
+  backoffDelay,
+  parseLinkHeader,
+  parseRetryAfter,
+  sleep,
+  type RetryOptions,
+} from '../utils/http.js';
+import { redactErrorSecrets, type AuthStrategy } from '../utils/auth.js';
 import type { Document, DocumentChunk, DocumentMetadata } from '../types/index.js';
 
 /**
@@ -17,6 +32,20 @@ export interface SourceContext {
   requestId: string;
 }
 
+/**
+ * A change to a document reported by a watching source
+ */
+export interface SourceChange {
+  type: 'add' | 'change' | 'unlink';
+  id: string;
+  path?: string;
+}
+
+/**
+ * Callback receiving batches of source changes
+ */
+export type SourceChangeListener = (changes: SourceChange[]) => void;
+
 /**
  * Base class for knowledge sources
  * 
@@ -52,6 +81,29 @@ export abstract class BaseSource {
     return this.connected;
   }
 
+  /**
+   * Start pushing changes to a listener, if the source supports it
+   *
+   * @returns true if the source is now watching
+   */
+  watch(_listener: SourceChangeListener, _context: SourceContext): boolean {
+    return false;
+  }
+
+  /**
+   * Stop watching for changes
+   */
+  unwatch(): void {
+    // Sources without watch support have nothing to release
+  }
+
+  /**
+   * Strip credentials from an error before it is logged or reported
+   */
+  redactError(error: unknown): unknown {
+    return error;
+  }
+
   /**
    * Fetch documents from the source
    */
@@ -80,53 +132,431 @@ export abstract class BaseSource {
 
   /**
    * Generate a document ID
+   *
+   * With a `key` (a path, URL, database key or the content itself) the ID
+   * is derived from a hash of the source name and key, so the same input
+   * always yields the same ID across syncs. Without one a random ID is
+   * returned, which makes every sync look like a new document.
    */
-  protected generateId(prefix?: string): string {
-    const id = crypto.randomUUID();
+  protected generateId(prefix?: string, key?: string): string {
+    const id = key !== undefined
+      ? createHash('sha256').update(`${this.name}\0${key}`).digest('hex').slice(0, 32)
+      : crypto.randomUUID();
     return prefix ? `${prefix}-${id}` : id;
   }
 }
 
+/**
+ * Options for file-based sources
+ */
+export interface FileSourceOptions {
+  /** Watch the base path and push changes to the provider (default: false) */
+  watch?: boolean;
+  /** Quiet period before a burst of file events is delivered (default: 300) */
+  watchDebounceMs?: number;
+  /** Globs a file's relative path must match, if given (e.g. `docs/**\/*.md`) */
+  include?: string[];
+  /** Globs of files and directories to skip (default: node_modules and .git) */
+  exclude?: string[];
+  /** Ignore files honored in every directory (default: .gitignore, .knowledgeignore) */
+  ignoreFiles?: string[];
+  /** Largest file to list, in bytes (default: 1 MiB) */
+  maxFileSize?: number;
+  /** Deepest directory level to descend into; 0 lists only `basePath` */
+  maxDepth?: number;
+  /** Skip files that look binary (default: true) */
+  skipBinary?: boolean;
+}
+
+const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**'];
+const DEFAULT_IGNORE_FILES = ['.gitignore', '.knowledgeignore'];
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Ignore rules together with the directory they apply to
+ */
+interface ScopedIgnoreRules {
+  dir: string;
+  rules: IgnoreRules;
+}
+
+/**
+ * Apply ignore rules from outermost to innermost; the last decision wins
+ */
+function isIgnored(fullPath: string, isDirectory: boolean, rules: ScopedIgnoreRules[]): boolean {
+  let ignored = false;
+
+  for (const { dir, rules: fileRules } of rules) {
+    const relative = path.relative(dir, fullPath).split(path.sep).join('/');
+    const decision = fileRules.test(relative, isDirectory);
+    if (decision !== undefined) ignored = decision;
+  }
+
+  return ignored;
+}
+
+/**
+ * Detect binary files by looking for NUL bytes in the first 8 KiB
+ */
+async function isBinaryFile(filePath: string): Promise<boolean> {
+  const fs = await import('fs/promises');
+  const handle = await fs.open(filePath, 'r');
+
+  try {
+    const buffer = Buffer.alloc(8192);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    await handle.close();
+  }
+}
+
 /**
  * File-based source
  */
 export abstract class FileSource extends BaseSource {
   protected basePath: string;
+  protected options: FileSourceOptions;
+  private watcher?: FSWatcher;
+  private watchTimer?: NodeJS.Timeout;
+  private pendingChanges: Map<string, 'rename' | 'change'> = new Map();
+  private ignoreRuleCache: Map<string, ScopedIgnoreRules[]> = new Map();
+  private compiledGlobs?: { include: RegExp[]; exclude: RegExp[] };
 
-  constructor(name: string, description: string, basePath: string) {
+  constructor(
+    name: string,
+    description: string,
+    basePath: string,
+    options?: FileSourceOptions
+  ) {
     super(name, description);
     this.basePath = basePath;
+    this.options = options || {};
+  }
+
+  /**
+   * Watch the base path recursively when watch mode is enabled
+   *
+   * File events are collected until no new event has arrived for
+   * `watchDebounceMs`, then delivered as one batch with a single entry
+   * per file. Subclasses must call `unwatch()` from `disconnect()`.
+   */
+  watch(listener: SourceChangeListener, context: SourceContext): boolean {
+    if (!this.options.watch) return false;
+    if (this.watcher) return true;
+
+    const debounceMs = this.options.watchDebounceMs ?? 300;
+
+    this.watcher = watchFs(this.basePath, { recursive: true }, (eventType, filename) => {
+      if (!filename) return;
+
+      const fullPath = path.join(this.basePath, filename.toString());
+      // A rename anywhere in the burst may be a create or delete
+      if (this.pendingChanges.get(fullPath) !== 'rename') {
+        this.pendingChanges.set(fullPath, eventType);
+      }
+
+      clearTimeout(this.watchTimer);
+      this.watchTimer = setTimeout(() => {
+        this.flushChanges(listener).catch(error => {
+          context.logger.error({ source: this.name, error }, 'Failed to deliver file changes');
+        });
+      }, debounceMs);
+    });
+
+    this.watcher.on('error', (error) => {
+      context.logger.error({ source: this.name, error }, 'File watcher failed');
+      this.unwatch();
+    });
+
+    return true;
+  }
+
+  /**
+   * Stop watching and drop pending events
+   */
+  unwatch(): void {
+    clearTimeout(this.watchTimer);
+    this.watchTimer = undefined;
+    this.pendingChanges.clear();
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Check whether a changed file is relevant to this source
+   *
+   * Applies the include/exclude globs and the ignore files found by the
+   * last `listFiles` call, to the file and to every directory above it.
+   * Watch events for files that fail this check are ignored; deletions
+   * are always reported because the path may have been a directory.
+   */
+  protected isWatchedFile(filePath: string): boolean {
+    const relative = this.relativePath(filePath);
+    const segments = relative.split('/');
+
+    if (segments.length - 1 > (this.options.maxDepth ?? Infinity)) return false;
+
+    // `listFiles` never descends into excluded or ignored directories
+    let dir = path.resolve(this.basePath);
+    for (const segment of segments.slice(0, -1)) {
+      dir = path.join(dir, segment);
+      if (this.isExcludedDirectory(this.relativePath(dir), dir, this.cachedRulesFor(dir))) return false;
+    }
+    return this.isIncludedFile(relative, path.resolve(filePath));
+  }
+
+  /**
+   * Deliver the pending file events as source changes
+   *
+   * A directory that was renamed or moved into the base path reports
+   * only its own event, so it is expanded into the files it contains.
+   * Files over the size limit or binary are skipped as in `listFiles`,
+   * and reported as removed in case an earlier version was indexed.
+   */
+  private async flushChanges(listener: SourceChangeListener): Promise<void> {
+    const pending = this.pendingChanges;
+    this.pendingChanges = new Map();
+    const changes: Map<string, SourceChange> = new Map();
+
+    for (const [filePath, eventType] of pending) {
+      const id = this.documentIdForPath(filePath);
+      const stats = statSync(filePath, { throwIfNoEntry: false });
+
+      if (!stats) {
+        changes.set(id, { type: 'unlink', id, path: filePath });
+      } else if (stats.isFile() && this.isWatchedFile(filePath)) {
+        changes.set(id, { type: eventType === 'rename' ? 'add' : 'change', id, path: filePath });
+      } else if (stats.isDirectory() && eventType === 'rename') {
+        for (const file of this.filesBelow(filePath)) {
+          const fileId = this.documentIdForPath(file);
+          if (!changes.has(fileId)) changes.set(fileId, { type: 'add', id: fileId, path: file });
+        }
+      }
+    }
+
+    for (const change of changes.values()) {
+      if (change.type !== 'unlink' && !await this.isIndexableFile(change.path!)) {
+        changes.set(change.id, { type: 'unlink', id: change.id, path: change.path });
+      }
+    }
+
+    if (changes.size > 0) {
+      listener(Array.from(changes.values()));
+    }
+  }
+
+  /**
+   * Watched files in a directory and its subdirectories
+   */
+  private filesBelow(dir: string): string[] {
+    const files: string[] = [];
+    const maxDepth = this.options.maxDepth ?? Infinity;
+
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      // Removed again before the batch was delivered
+      return files;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        const relative = this.relativePath(fullPath);
+        if (relative.split('/').length > maxDepth) continue;
+        if (!this.isExcludedDirectory(relative, fullPath, this.cachedRulesFor(fullPath))) {
+          files.push(...this.filesBelow(fullPath));
+        }
+      } else if (entry.isFile() && this.isWatchedFile(fullPath)) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Get the stable document ID of a file
+   *
+   * IDs have the form `<source>:<relative/posix/path>`, so they survive
+   * re-syncs and can be mapped back with `resolveDocumentPath`.
+   */
+  protected documentIdForPath(filePath: string): string {
+    return `${this.name}:${this.relativePath(filePath)}`;
+  }
+
+  /**
+   * Map a document ID from `documentIdForPath` back to an absolute file path
+   *
+   * Returns null for IDs of other sources and for paths that would
+   * escape the base directory.
+   */
+  protected resolveDocumentPath(id: string): string | null {
+    const prefix = `${this.name}:`;
+    if (!id.startsWith(prefix)) return null;
+
+    const relative = id.slice(prefix.length);
+    const root = path.resolve(this.basePath);
+    const resolved = path.resolve(root, ...relative.split('/'));
+
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      return null;
+    }
+    return resolved;
+  }
+
+  /**
+   * Get a file path relative to the base path, normalized to forward
+   * slashes and NFC so IDs match across platforms
+   */
+  protected relativePath(filePath: string): string {
+    return path
+      .relative(path.resolve(this.basePath), path.resolve(filePath))
+      .split(path.sep)
+      .join('/')
+      .normalize('NFC');
   }
 
   /**
    * List files in the source directory
+   *
+   * Walks `basePath` applying the include/exclude globs, ignore files,
+   * depth and size limits from the source options, and skips binary
+   * files. `pattern` is an additional regex tested against file names.
    */
   protected async listFiles(pattern?: string): Promise<string[]> {
     const fs = await import('fs/promises');
-    const path = await import('path');
 
     const files: string[] = [];
-    
-    async function walk(dir: string): Promise<void> {
+    const nameRegex = pattern ? new RegExp(pattern) : undefined;
+    const maxDepth = this.options.maxDepth ?? Infinity;
+    const root = path.resolve(this.basePath);
+
+    const walk = async (dir: string, depth: number, rules: ScopedIgnoreRules[]): Promise<void> => {
+      const scoped = [...rules, ...await this.loadIgnoreRules(dir)];
       const entries = await fs.readdir(dir, { withFileTypes: true });
-      
+
       for (const entry of entries) {
         const fullPath = path.join(dir, entry.name);
-        
+        const relative = this.relativePath(fullPath);
+
         if (entry.isDirectory()) {
-          await walk(fullPath);
+          if (depth >= maxDepth) continue;
+          if (this.isExcludedDirectory(relative, fullPath, scoped)) continue;
+          await walk(fullPath, depth + 1, scoped);
         } else if (entry.isFile()) {
-          if (!pattern || new RegExp(pattern).test(entry.name)) {
-            files.push(fullPath);
-          }
+          if (nameRegex && !nameRegex.test(entry.name)) continue;
+          if (!this.isIncludedFile(relative, fullPath, scoped)) continue;
+          if (!await this.isIndexableFile(fullPath)) continue;
+
+          files.push(fullPath);
         }
       }
-    }
+    };
 
-    await walk(this.basePath);
+    this.ignoreRuleCache.clear();
+    await walk(root, 0, []);
     return files;
   }
 
+  /**
+   * Check a file path against the include/exclude globs and ignore files
+   */
+  protected isIncludedFile(
+    relative: string,
+    fullPath: string,
+    rules: ScopedIgnoreRules[] = this.cachedRulesFor(fullPath)
+  ): boolean {
+    const { include, exclude } = this.globs();
+
+    if (include.length > 0 && !matchesAnyGlob(relative, include)) return false;
+    if (matchesAnyGlob(relative, exclude)) return false;
+    return !isIgnored(fullPath, false, rules);
+  }
+
+  /**
+   * Check a file against the size limit and, unless disabled, for binary
+   * content; files that vanished are not indexable
+   */
+  private async isIndexableFile(fullPath: string): Promise<boolean> {
+    const fs = await import('fs/promises');
+
+    try {
+      const stats = await fs.stat(fullPath);
+      if (stats.size > (this.options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE)) return false;
+      return this.options.skipBinary === false || !await isBinaryFile(fullPath);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a directory should be skipped entirely
+   */
+  private isExcludedDirectory(
+    relative: string,
+    fullPath: string,
+    rules: ScopedIgnoreRules[]
+  ): boolean {
+    const { exclude } = this.globs();
+
+    // `dir/**` style excludes match anything below the directory
+    if (matchesAnyGlob(relative, exclude) || matchesAnyGlob(`${relative}/`, exclude)) {
+      return true;
+    }
+    return isIgnored(fullPath, true, rules);
+  }
+
+  /**
+   * Compile the include/exclude globs once
+   */
+  private globs(): { include: RegExp[]; exclude: RegExp[] } {
+    if (!this.compiledGlobs) {
+      this.compiledGlobs = {
+        include: (this.options.include || []).map(globToRegExp),
+        exclude: (this.options.exclude || DEFAULT_EXCLUDE).map(globToRegExp),
+      };
+    }
+    return this.compiledGlobs;
+  }
+
+  /**
+   * Load the ignore files of a directory
+   */
+  private async loadIgnoreRules(dir: string): Promise<ScopedIgnoreRules[]> {
+    const fs = await import('fs/promises');
+    const names = this.options.ignoreFiles || DEFAULT_IGNORE_FILES;
+    const loaded: ScopedIgnoreRules[] = [];
+
+    for (const name of names) {
+      try {
+        const rules = new IgnoreRules(await fs.readFile(path.join(dir, name), 'utf-8'));
+        if (rules.size > 0) loaded.push({ dir, rules });
+      } catch {
+        // No ignore file of this name here
+      }
+    }
+
+    this.ignoreRuleCache.set(dir, loaded);
+    return loaded;
+  }
+
+  /**
+   * Ignore rules seen for a file's ancestors during the last listing
+   */
+  private cachedRulesFor(fullPath: string): ScopedIgnoreRules[] {
+    const rules: ScopedIgnoreRules[] = [];
+    for (const [dir, scoped] of this.ignoreRuleCache) {
+      if (fullPath.startsWith(dir + path.sep)) {
+        rules.push(...scoped);
+      }
+    }
+    // Outer directories first so nested ignore files take precedence
+    return rules.sort((a, b) => a.dir.length - b.dir.length);
+  }
+
   /**
    * Read file content
    */
@@ -136,22 +566,137 @@ export abstract class FileSource extends BaseSource {
   }
 }
 
+/**
+ * Options for API-based sources
+ */
+export interface ApiSourceOptions {
+  /** Time limit of each request attempt, in milliseconds (default: 30000) */
+  timeoutMs?: number;
+  /** Retries of failed idempotent requests; false disables them */
+  retry?: RetryOptions | false;
+  /** Client-side rate limit; requests wait for their turn */
+  rateLimit?: {
+    requestsPerSecond: number;
+    /** Requests allowed at once after a quiet period (default: `requestsPerSecond`) */
+    burst?: number;
+  };
+  /** Revalidate repeated GET requests with ETag/If-None-Match (default: true) */
+  conditionalRequests?: boolean;
+  /** Authentication of every request */
+  auth?: AuthStrategy;
+}
+
+/**
+ * A parsed API response
+ */
+export interface ApiResponse<T> {
+  data: T;
+  status: number;
+  headers: Headers;
+  url: string;
+  /** The server answered 304 Not Modified and `data` is the cached body */
+  notModified: boolean;
+}
+
+/**
+ * Options shared by the pagination iterators
+ */
+export interface PaginationOptions<T, P = unknown> {
+  /** Items of a page (default: the page itself, which must be an array) */
+  items?: (page: P) => T[];
+  /** Stop after this many pages */
+  maxPages?: number;
+  /** Options of every page request */
+  init?: RequestInit;
+}
+
+/**
+ * Options for cursor pagination
+ */
+export interface CursorPaginationOptions<T, P = unknown> extends PaginationOptions<T, P> {
+  /** Cursor of the page after this one; none ends the iteration */
+  nextCursor: (page: P) => string | null | undefined;
+  /** Query parameter carrying the cursor (default: 'cursor') */
+  cursorParam?: string;
+}
+
+/**
+ * Options for offset pagination
+ */
+export interface OffsetPaginationOptions<T, P = unknown> extends PaginationOptions<T, P> {
+  /** Default: 'offset' */
+  offsetParam?: string;
+  /** Default: 'limit' */
+  limitParam?: string;
+  /** Items requested per page; a shorter page ends the iteration (default: 100) */
+  pageSize?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const MAX_CACHED_RESPONSES = 1000;
+const SENSITIVE_HEADER = /auth|token|key|secret|cookie/i;
+
 /**
  * API-based source
+ *
+ * Requests time out per attempt, and idempotent ones are retried with
+ * exponential backoff and jitter on network errors, timeouts, 408, 429
+ * and 5xx responses, honoring `Retry-After`. GET responses with an ETag
+ * are cached and revalidated with If-None-Match, so unchanged resources
+ * cost a 304 on the next sync.
+ *
+ * With an `auth` strategy, credentials are loaded on connect and added
+ * to every request; a 401 response refreshes them and retries once.
+ * Errors thrown by requests have credentials redacted.
  */
 export abstract class ApiSource extends BaseSource {
   protected baseUrl: string;
   protected headers: Record<string, string>;
+  protected apiOptions: ApiSourceOptions;
+  private rateLimiter?: TokenBucket;
+  private responseCache: Map<string, { etag: string; data: unknown }> = new Map();
 
   constructor(
     name: string,
     description: string,
     baseUrl: string,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    options: ApiSourceOptions = {}
   ) {
     super(name, description);
     this.baseUrl = baseUrl;
     this.headers = headers || {};
+    this.apiOptions = options;
+
+    if (options.rateLimit) {
+      this.rateLimiter = new TokenBucket({
+        refillPerSecond: options.rateLimit.requestsPerSecond,
+        capacity: options.rateLimit.burst,
+      });
+    }
+  }
+
+  /**
+   * Load the credentials of the auth strategy
+   *
+   * Subclasses overriding this should call `super.connect()`.
+   */
+  async connect(_context: SourceContext): Promise<void> {
+    await this.apiOptions.auth?.initialize();
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.clearResponseCache();
+    this.connected = false;
+  }
+
+  /**
+   * Strip auth credentials and sensitive header values from an error
+   */
+  redactError(error: unknown): unknown {
+    return redactErrorSecrets(error, this.secrets());
   }
 
   /**
@@ -161,18 +706,260 @@ export abstract class ApiSource extends BaseSource {
     endpoint: string,
     options?: RequestInit
   ): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      ...options,
-      headers: {
-        ...this.headers,
-        ...options?.headers,
-      },
-    });
+    return (await this.requestWithResponse<T>(endpoint, options)).data;
+  }
+
+  /**
+   * Make an API request, returning the status and headers with the body
+   *
+   * @param endpoint path relative to `baseUrl`, or an absolute URL
+   * @throws ApiRequestError once the request failed and retries are used up
+   */
+  protected async requestWithResponse<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    try {
+      return await this.requestWithRetries<T>(endpoint, options);
+    } catch (error) {
+      throw this.redactError(error);
+    }
+  }
+
+  /**
+   * Iterate the items of a paginated endpoint by following `Link:
+   * <...>; rel="next"` headers (GitHub, GitLab and others)
+   */
+  protected async *paginateLinks<T, P = unknown>(
+    endpoint: string,
+    options: PaginationOptions<T, P> = {}
+  ): AsyncGenerator<T> {
+    const maxPages = options.maxPages ?? Infinity;
+    let url: string | undefined = this.resolveUrl(endpoint);
+
+    for (let page = 0; url && page < maxPages; page++) {
+      const response: ApiResponse<P> = await this.requestWithResponse<P>(url, options.init);
+      yield* pageItems(response.data, options.items);
+
+      const next: string | undefined = parseLinkHeader(response.headers.get('link')).next;
+      url = next ? new URL(next, response.url).toString() : undefined;
+    }
+  }
+
+  /**
+   * Iterate the items of an endpoint that returns the cursor of the next
+   * page with each page
+   */
+  protected async *paginateCursor<T, P = unknown>(
+    endpoint: string,
+    options: CursorPaginationOptions<T, P>
+  ): AsyncGenerator<T> {
+    const maxPages = options.maxPages ?? Infinity;
+    const cursorParam = options.cursorParam ?? 'cursor';
+    const seen = new Set<string>();
+    let cursor: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      const url = this.withQuery(endpoint, cursor === undefined ? {} : { [cursorParam]: cursor });
+      const { data } = await this.requestWithResponse<P>(url, options.init);
+      yield* pageItems(data, options.items);
+
+      // A repeated cursor would loop forever
+      const next = options.nextCursor(data);
+      if (!next || seen.has(next)) return;
+      seen.add(next);
+      cursor = next;
+    }
+  }
+
+  /**
+   * Iterate the items of an endpoint paged by offset and limit
+   */
+  protected async *paginateOffset<T, P = unknown>(
+    endpoint: string,
+    options: OffsetPaginationOptions<T, P> = {}
+  ): AsyncGenerator<T> {
+    const maxPages = options.maxPages ?? Infinity;
+    const pageSize = options.pageSize ?? 100;
+    let offset = 0;
+
+    for (let page = 0; page < maxPages; page++) {
+      const url = this.withQuery(endpoint, {
+        [options.offsetParam ?? 'offset']: String(offset),
+        [options.limitParam ?? 'limit']: String(pageSize),
+      });
+      const { data } = await this.requestWithResponse<P>(url, options.init);
+      const items = pageItems(data, options.items);
+      yield* items;
+
+      if (items.length < pageSize) return;
+      offset += items.length;
+    }
+  }
+
+  /**
+   * Forget cached responses, so the next requests fetch full bodies
+   */
+  protected clearResponseCache(): void {
+    this.responseCache.clear();
+  }
+
+  /**
+   * Make a request, retrying failed attempts
+   */
+  private async requestWithRetries<T>(endpoint: string, options: RequestInit): Promise<ApiResponse<T>> {
+    const url = this.resolveUrl(endpoint);
+    const method = (options.method ?? 'GET').toUpperCase();
+    const retry = this.apiOptions.retry === false ? { retries: 0 } : this.apiOptions.retry ?? {};
+    const retries = IDEMPOTENT_METHODS.has(method) ? retry.retries ?? 3 : 0;
+    const signal = options.signal ?? undefined;
+    const auth = this.apiOptions.auth;
+    let refreshed = false;
+
+    for (let attempt = 0; ;) {
+      try {
+        return await this.attemptRequest<T>(url, method, options);
+      } catch (error) {
+        if (!(error instanceof ApiRequestError)) throw error;
+
+        // Rejected credentials get one refresh, whatever the method
+        if (error.status === 401 && auth && !refreshed) {
+          refreshed = true;
+          if (await auth.refresh()) continue;
+        }
+
+        if (!error.retryable || attempt >= retries) throw error;
+
+        // A server asking for a longer pause than we would wait gets none
+        const retryAfter = error.retryAfterMs ?? 0;
+        if (retryAfter > (retry.maxDelayMs ?? 10_000)) throw error;
+
+        await sleep(Math.max(backoffDelay(attempt++, retry), retryAfter), signal);
+      }
+    }
+  }
+
+  /**
+   * Make one attempt of a request, within the timeout
+   */
+  private async attemptRequest<T>(url: string, method: string, options: RequestInit): Promise<ApiResponse<T>> {
+    const signal = options.signal ?? undefined;
+    await this.rateLimiter?.take(signal);
 
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    const headers = new Headers(this.headers);
+    new Headers(options.headers).forEach((value, key) => headers.set(key, value));
+
+    const conditional = method === 'GET' && this.apiOptions.conditionalRequests !== false;
+    const cached = conditional ? this.responseCache.get(url) : undefined;
+    if (cached && !headers.has('if-none-match')) headers.set('if-none-match', cached.etag);
+
+    const target = new URL(url);
+    await this.apiOptions.auth?.apply({ url: target, headers });
+
+    // Abort on timeout, or when the caller's signal aborts
+    const timeoutMs = this.apiOptions.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort(signal!.reason);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const failed = (error: unknown): Error => {
+      if (signal?.aborted) return error instanceof Error ? error : new Error(String(error));
+      if (controller.signal.aborted) {
+        return new ApiRequestError(`API request timed out after ${timeoutMs}ms`, url, undefined, true);
+      }
+      if (error instanceof SyntaxError) {
+        return new ApiRequestError(`API response is not valid JSON: ${error.message}`, url);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return new ApiRequestError(`API request failed: ${message}`, url, undefined, true);
+    };
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(target, { ...options, method, headers, signal: controller.signal });
+      } catch (error) {
+        throw failed(error);
+      }
+
+      // Without a cached body (the caller sent If-None-Match), data is undefined
+      if (response.status === 304) {
+        if (cached) this.touchCached(url, cached);
+        return { data: cached?.data as T, status: 304, headers: response.headers, url, notModified: true };
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new ApiRequestError(
+          `API request failed: ${response.status} ${response.statusText}`,
+          url,
+          response.status,
+          RETRYABLE_STATUSES.has(response.status),
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      let data: T;
+      try {
+        const text = await response.text();
+        data = (text ? JSON.parse(text) : undefined) as T;
+      } catch (error) {
+        throw failed(error);
+      }
+
+      const etag = response.headers.get('etag');
+      if (conditional && etag) this.touchCached(url, { etag, data });
+
+      return { data, status: response.status, headers: response.headers, url, notModified: false };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
+  }
 
-    return response.json() as T;
+  /**
+   * Store a cached response as the most recently used, evicting the
+   * least recently used beyond the cache size
+   */
+  private touchCached(url: string, entry: { etag: string; data: unknown }): void {
+    this.responseCache.delete(url);
+    this.responseCache.set(url, entry);
+    if (this.responseCache.size > MAX_CACHED_RESPONSES) {
+      this.responseCache.delete(this.responseCache.keys().next().value!);
+    }
   }
+
+  /**
+   * Credentials that must not appear in errors: those of the auth
+   * strategy and the values of sensitive static headers
+   */
+  private secrets(): string[] {
+    const headers = Object.entries(this.headers)
+      .filter(([name]) => SENSITIVE_HEADER.test(name))
+      .flatMap(([, value]) => [value, value.replace(/^\S+\s+/, '')]);
+    return [...(this.apiOptions.auth?.secrets() ?? []), ...headers];
+  }
+
+  private resolveUrl(endpoint: string): string {
+    return /^https?:\/\//i.test(endpoint) ? endpoint : `${this.baseUrl}${endpoint}`;
+  }
+
+  private withQuery(endpoint: string, params: Record<string, string>): string {
+    const url = new URL(this.resolveUrl(endpoint));
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+}
+
+/**
+ * Items of a fetched page
+ */
+function pageItems<T, P>(page: P, items?: (page: P) => T[]): T[] {
+  if (items) return items(page);
+  if (Array.isArray(page)) return page as T[];
+  throw new TypeError('API page is not an array; pass an `items` function to extract its items');
 }
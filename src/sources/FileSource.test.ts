@@ -0,0 +1,162 @@
+import { mkdtemp, mkdir, rename, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileSource, type FileSourceOptions, type SourceChange, type SourceContext, type SourceResult } from './BaseSource.js';
+import type { Document } from '../types/index.js';
+
+/**
+ * A file source exposing its listing
+ */
+class TestFileSource extends FileSource {
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.unwatch();
+    this.connected = false;
+  }
+
+  async fetchDocuments(): Promise<SourceResult> {
+    return { documents: [] };
+  }
+
+  async fetchDocument(): Promise<Document | null> {
+    return null;
+  }
+
+  async getDocumentCount(): Promise<number> {
+    return 0;
+  }
+
+  list(): Promise<string[]> {
+    return this.listFiles();
+  }
+}
+
+const context = {
+  logger: { error: () => undefined },
+  requestId: 'test',
+} as unknown as SourceContext;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let dir: string;
+let source: TestFileSource;
+let batches: SourceChange[][];
+
+/**
+ * Create a watching source over the temp directory, after a first listing
+ * has loaded its ignore files
+ */
+async function watchDir(options: FileSourceOptions = {}): Promise<TestFileSource> {
+  source = new TestFileSource('docs', 'Docs', dir, { watch: true, watchDebounceMs: 50, ...options });
+  await source.list();
+  source.watch(changes => batches.push(changes), context);
+  return source;
+}
+
+/**
+ * Changes of all delivered batches, sorted by ID
+ */
+function delivered(): Array<[string, string]> {
+  return batches.flat().map((change): [string, string] => [change.type, change.id]).sort((a, b) => a[1].localeCompare(b[1]));
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'file-source-'));
+  batches = [];
+});
+
+afterEach(async () => {
+  await source?.disconnect();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('FileSource watch', () => {
+  it('applies ignore rules and excludes of parent directories to events', async () => {
+    await writeFile(path.join(dir, '.gitignore'), 'dist/\n');
+    await mkdir(path.join(dir, 'dist'));
+    await mkdir(path.join(dir, 'archive'));
+    await watchDir({ exclude: ['archive/**'] });
+
+    await writeFile(path.join(dir, 'dist', 'a.md'), '# Built');
+    await writeFile(path.join(dir, 'archive', 'old.md'), '# Old');
+    await writeFile(path.join(dir, 'guide.md'), '# Guide');
+    await wait(300);
+
+    expect(delivered()).toEqual([['add', 'docs:guide.md']]);
+  });
+
+  it('applies the size and binary limits of listings to events', async () => {
+    await writeFile(path.join(dir, 'big.md'), 'small');
+    await watchDir({ maxFileSize: 100 });
+
+    await writeFile(path.join(dir, 'big.md'), 'x'.repeat(200));
+    await writeFile(path.join(dir, 'image.md'), Buffer.from([0x89, 0x50, 0x00, 0x47]));
+    await writeFile(path.join(dir, 'ok.md'), '# Fine');
+    await wait(300);
+
+    // Files failing the limits are reported as removed, dropping earlier versions
+    expect(delivered()).toEqual([
+      ['unlink', 'docs:big.md'],
+      ['unlink', 'docs:image.md'],
+      ['add', 'docs:ok.md'],
+    ]);
+  });
+
+  it('waits for a quiet period and delivers a burst as one batch', async () => {
+    await watchDir({ watchDebounceMs: 200 });
+
+    await writeFile(path.join(dir, 'a.md'), '# A');
+    await wait(50);
+    await writeFile(path.join(dir, 'a.md'), '# A, edited');
+    await writeFile(path.join(dir, 'b.md'), '# B');
+    await wait(100);
+    expect(batches).toEqual([]);
+
+    await wait(400);
+    // One entry per file; a created file stays an addition
+    expect(batches).toHaveLength(1);
+    expect(delivered()).toEqual([['add', 'docs:a.md'], ['add', 'docs:b.md']]);
+  });
+
+  it('delivers later bursts as separate batches', async () => {
+    await watchDir();
+
+    await writeFile(path.join(dir, 'a.md'), '# A');
+    await wait(300);
+    await writeFile(path.join(dir, 'a.md'), '# A, edited');
+    await wait(300);
+
+    expect(batches.map(batch => batch.map(change => [change.type, change.id]))).toEqual([
+      [['add', 'docs:a.md']],
+      [['change', 'docs:a.md']],
+    ]);
+  });
+
+  it('expands a directory moved into the base path into its files', async () => {
+    const outside = await mkdtemp(path.join(tmpdir(), 'file-source-outside-'));
+    await mkdir(path.join(outside, 'nested'));
+    await writeFile(path.join(outside, 'one.md'), '# One');
+    await writeFile(path.join(outside, 'nested', 'two.md'), '# Two');
+    await watchDir();
+
+    await rename(outside, path.join(dir, 'guides'));
+    await wait(300);
+
+    expect(delivered()).toEqual([['add', 'docs:guides/nested/two.md'], ['add', 'docs:guides/one.md']]);
+  });
+
+  it('reports a removed directory by its own ID', async () => {
+    await mkdir(path.join(dir, 'guides'));
+    await writeFile(path.join(dir, 'guides', 'one.md'), '# One');
+    await watchDir();
+
+    await rm(path.join(dir, 'guides'), { recursive: true });
+    await wait(300);
+
+    expect(delivered()).toContainEqual(['unlink', 'docs:guides']);
+  });
+});
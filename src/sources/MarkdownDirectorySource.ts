@@ -0,0 +1,183 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FileSource, type FileSourceOptions, type SourceContext, type SourceResult } from './BaseSource.js';
+import { parseFrontMatter } from '../utils/frontmatter.js';
+import type { Document, DocumentMetadata } from '../types/index.js';
+
+/**
+ * Options for the markdown directory source
+ */
+export interface MarkdownDirectorySourceOptions extends FileSourceOptions {
+  /** File extensions to index (default: .md, .mdx) */
+  extensions?: string[];
+}
+
+/**
+ * Front-matter keys that map onto dedicated document fields, or that
+ * would clobber metadata the provider relies on
+ */
+const RESERVED_KEYS = new Set(['title', 'tags', 'version', 'language', 'lang', 'source']);
+
+/**
+ * Source that indexes a directory of markdown files
+ *
+ * Each file becomes a `markdown` document with a stable path-based ID.
+ * YAML front-matter is parsed into metadata: `title`, `tags` and
+ * `version` map onto their fields and any other keys are passed through.
+ * Without a front-matter title, the first H1 (or the file name) is used.
+ * The content is the whole file so chunk lines match it; the front-matter
+ * block is left out of the chunks.
+ */
+export class MarkdownDirectorySource extends FileSource {
+  private extensions: string[];
+
+  constructor(
+    name: string,
+    description: string,
+    basePath: string,
+    options: MarkdownDirectorySourceOptions = {}
+  ) {
+    super(name, description, basePath, options);
+    this.extensions = (options.extensions || ['.md', '.mdx']).map(ext => ext.toLowerCase());
+  }
+
+  async connect(context: SourceContext): Promise<void> {
+    const stats = await fs.stat(this.basePath);
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${this.basePath}`);
+    }
+
+    this.connected = true;
+    context.logger.debug({ source: this.name, basePath: this.basePath }, 'Markdown source connected');
+  }
+
+  async disconnect(): Promise<void> {
+    this.unwatch();
+    this.connected = false;
+  }
+
+  async fetchDocuments(context: SourceContext): Promise<SourceResult> {
+    const files = await this.listMarkdownFiles();
+    const documents: Document[] = [];
+
+    for (const file of files) {
+      try {
+        documents.push(await this.loadDocument(file));
+      } catch (error) {
+        context.logger.warn({ source: this.name, file, error }, 'Failed to read markdown file');
+      }
+    }
+
+    return { documents };
+  }
+
+  async fetchDocument(id: string, _context: SourceContext): Promise<Document | null> {
+    const file = this.resolveDocumentPath(id);
+    if (!file || !this.hasMarkdownExtension(file)) return null;
+
+    try {
+      return await this.loadDocument(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getDocumentCount(): Promise<number> {
+    return (await this.listMarkdownFiles()).length;
+  }
+
+  protected isWatchedFile(filePath: string): boolean {
+    return this.hasMarkdownExtension(filePath) && super.isWatchedFile(filePath);
+  }
+
+  /**
+   * Read a markdown file and convert it to a document
+   */
+  protected async loadDocument(filePath: string): Promise<Document> {
+    const [raw, stats] = await Promise.all([
+      this.readFile(filePath),
+      fs.stat(filePath),
+    ]);
+    const { data, body } = parseFrontMatter(raw);
+    const relative = this.relativePath(filePath);
+    const extension = path.extname(filePath).toLowerCase();
+
+    // birthtime is 0 on filesystems that do not record it
+    const created = stats.birthtimeMs > 0 ? stats.birthtime : stats.mtime;
+
+    const extra: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (!RESERVED_KEYS.has(key)) extra[key] = value;
+    }
+
+    const metadata: DocumentMetadata = this.createMetadata({
+      ...extra,
+      path: relative,
+      language: toOptionalString(data.language ?? data.lang) ?? (extension === '.mdx' ? 'mdx' : 'markdown'),
+      createdAt: created.toISOString(),
+      updatedAt: stats.mtime.toISOString(),
+    });
+
+    const tags = toTags(data.tags);
+    if (tags) metadata.tags = tags;
+
+    const version = toOptionalString(data.version);
+    if (version) metadata.version = version;
+
+    return {
+      id: this.documentIdForPath(filePath),
+      type: 'markdown',
+      content: raw,
+      title: toOptionalString(data.title) ?? firstHeading(body) ?? path.basename(filePath, extension),
+      metadata,
+    };
+  }
+
+  /**
+   * List the markdown files of the source
+   */
+  private async listMarkdownFiles(): Promise<string[]> {
+    const files = await this.listFiles();
+    return files.filter(file => this.hasMarkdownExtension(file));
+  }
+
+  /**
+   * Check whether a file has one of the configured extensions
+   */
+  private hasMarkdownExtension(filePath: string): boolean {
+    return this.extensions.includes(path.extname(filePath).toLowerCase());
+  }
+}
+
+/**
+ * Extract the text of the first H1 heading
+ */
+function firstHeading(markdown: string): string | undefined {
+  const atx = markdown.match(/^#[ \t]+(.+?)[ \t#]*$/m);
+  if (atx) return atx[1].trim();
+
+  const setext = markdown.match(/^(\S.*)\r?\n=+[ \t]*$/m);
+  return setext ? setext[1].trim() : undefined;
+}
+
+/**
+ * Normalize front-matter tags given as a list or comma-separated string
+ */
+function toTags(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.map(String).filter(tag => tag.length > 0);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  }
+  return undefined;
+}
+
+/**
+ * Convert scalar front-matter values to strings
+ */
+function toOptionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined || typeof value === 'object') return undefined;
+  return String(value);
+}
@@ -7,6 +7,13 @@ export type DocumentType = 'text' | 'markdown' | 'code' | 'json' | 'html' | 'pra
 
 export const DocumentTypeSchema = z.enum(['text', 'markdown', 'code', 'json', 'html', 'practice', 'style-guide']);
 
+/**
+ * Origin of a document
+ */
+export type DocumentOrigin = 'source' | 'agent';
+
+export const DocumentOriginSchema = z.enum(['source', 'agent']);
+
 /**
  * Document metadata
  */
@@ -18,6 +25,8 @@ export interface DocumentMetadata {
   tags?: string[];
   createdAt?: string;
   updatedAt?: string;
+  /** How the document got in: synced from a source (default) or written by an agent */
+  origin?: DocumentOrigin;
   [key: string]: unknown;
 }
 
@@ -29,6 +38,7 @@ export const DocumentMetadataSchema = z.object({
   tags: z.array(z.string()).optional(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
+  origin: DocumentOriginSchema.optional(),
 }).passthrough();
 
 /**
@@ -56,48 +66,122 @@ export const DocumentSchema = z.object({
 export interface DocumentChunk {
   id: string;
   documentId: string;
+  /** Type of the document the chunk belongs to */
+  type: DocumentType;
   content: string;
   title?: string;
+  /** Offset of the chunk in the document content; `content` equals `document.content.slice(startOffset, endOffset)` */
   startOffset: number;
   endOffset: number;
+  /** 1-based line range of the chunk in the document content */
+  startLine: number;
+  endLine: number;
   metadata: DocumentMetadata;
 }
 
 export const DocumentChunkSchema = z.object({
   id: z.string(),
   documentId: z.string(),
+  type: DocumentTypeSchema,
   content: z.string(),
   title: z.string().optional(),
   startOffset: z.number(),
   endOffset: z.number(),
+  startLine: z.number(),
+  endLine: z.number(),
   metadata: DocumentMetadataSchema,
 });
 
+/**
+ * Retrieval mode
+ */
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export const SearchModeSchema = z.enum(['keyword', 'semantic', 'hybrid']);
+
+/**
+ * How hits from one document are grouped: `document` merges
+ * overlapping or adjacent hits into a single passage
+ */
+export type CollapseMode = 'none' | 'document';
+
+export const CollapseModeSchema = z.enum(['none', 'document']);
+
+/**
+ * Metadata value accepted by metadata filters
+ */
+export type FilterValue = string | number | boolean;
+
+/**
+ * Search filters
+ *
+ * All given conditions must hold. Dates are ISO 8601 and ranges are
+ * inclusive; versions compare numerically per dot-separated segment.
+ */
+export interface SearchFilters {
+  source?: string;
+  type?: DocumentType;
+  language?: string;
+  tags?: string[];
+  /** Whether chunks need any (default) or all of `tags` */
+  tagMode?: 'any' | 'all';
+  updatedAfter?: string;
+  updatedBefore?: string;
+  minVersion?: string;
+  maxVersion?: string;
+  /** Prefix of `metadata.path` */
+  pathPrefix?: string;
+  /** Exact values of other metadata keys; a list matches any of its values */
+  metadata?: Record<string, FilterValue | FilterValue[]>;
+}
+
+const FilterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * ISO 8601 date (`2024-01-01`) or date-time with an optional offset
+ */
+const IsoDateSchema = z.string().refine(
+  value => z.string().date().safeParse(value).success || z.string().datetime({ offset: true }).safeParse(value).success,
+  { message: 'Expected an ISO 8601 date or date-time' }
+);
+
+export const SearchFiltersSchema = z.object({
+  source: z.string().optional(),
+  type: DocumentTypeSchema.optional(),
+  language: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  tagMode: z.enum(['any', 'all']).optional(),
+  updatedAfter: IsoDateSchema.optional(),
+  updatedBefore: IsoDateSchema.optional(),
+  minVersion: z.string().optional(),
+  maxVersion: z.string().optional(),
+  pathPrefix: z.string().optional(),
+  metadata: z.record(z.union([FilterValueSchema, z.array(FilterValueSchema)])).optional(),
+});
+
 /**
  * Query for knowledge retrieval
  */
 export interface KnowledgeQuery {
   query: string;
-  filters?: {
-    source?: string;
-    type?: DocumentType;
-    tags?: string[];
-    language?: string;
-  };
+  mode?: SearchMode;
+  filters?: SearchFilters;
   limit?: number;
   threshold?: number;
+  /** Reorder results with maximal marginal relevance (default: `diversity.enabled`) */
+  diversify?: boolean;
+  /** Merge overlapping hits of one document into a passage (default: `diversity.collapse`) */
+  collapse?: CollapseMode;
 }
 
 export const KnowledgeQuerySchema = z.object({
   query: z.string(),
-  filters: z.object({
-    source: z.string().optional(),
-    type: DocumentTypeSchema.optional(),
-    tags: z.array(z.string()).optional(),
-    language: z.string().optional(),
-  }).optional(),
+  mode: SearchModeSchema.optional(),
+  filters: SearchFiltersSchema.optional(),
   limit: z.number().optional(),
   threshold: z.number().optional(),
+  diversify: z.boolean().optional(),
+  collapse: CollapseModeSchema.optional(),
 });
 
 /**
@@ -108,9 +192,14 @@ export interface KnowledgeResult {
     chunk: DocumentChunk;
     score: number;
     highlights?: string[];
+    ranks?: Record<string, number>;
   }>;
   totalCount: number;
   queryTimeMs: number;
+  /** Corrected queries ("did you mean"), when some query words look misspelled */
+  suggestions?: string[];
+  /** Milliseconds spent per stage (keyword, semantic, fusion, rerank) */
+  timings?: Record<string, number>;
 }
 
 export const KnowledgeResultSchema = z.object({
@@ -118,9 +207,203 @@ export const KnowledgeResultSchema = z.object({
     chunk: DocumentChunkSchema,
     score: z.number(),
     highlights: z.array(z.string()).optional(),
+    ranks: z.record(z.number()).optional(),
   })),
   totalCount: z.number(),
   queryTimeMs: z.number(),
+  suggestions: z.array(z.string()).optional(),
+  timings: z.record(z.number()).optional(),
+});
+
+/**
+ * Request for prompt-ready context
+ */
+export interface ContextRequest {
+  query: string;
+  /** Token budget of the context block (default: 4000) */
+  maxTokens?: number;
+  mode?: SearchMode;
+  filters?: SearchFilters;
+  /** Neighboring chunks added on each side of a hit (default: 1) */
+  expand?: number;
+  /** Search hits to consider (default: 20) */
+  maxResults?: number;
+  /** Minimum hit score (default: 0, any hit) */
+  threshold?: number;
+}
+
+export const ContextRequestSchema = z.object({
+  query: z.string(),
+  maxTokens: z.number().int().min(1).optional().default(4000),
+  mode: SearchModeSchema.optional(),
+  filters: SearchFiltersSchema.optional(),
+  expand: z.number().int().min(0).optional().default(1),
+  maxResults: z.number().int().min(1).optional().default(20),
+  threshold: z.number().optional(),
+});
+
+/**
+ * Source of a numbered passage in a context block
+ */
+export interface Citation {
+  /** Number the passage is marked with, e.g. 1 for `[1]` */
+  id: number;
+  documentId: string;
+  title?: string;
+  source: string;
+  path?: string;
+  startOffset: number;
+  endOffset: number;
+  startLine: number;
+  endLine: number;
+  score: number;
+}
+
+export const CitationSchema = z.object({
+  id: z.number(),
+  documentId: z.string(),
+  title: z.string().optional(),
+  source: z.string(),
+  path: z.string().optional(),
+  startOffset: z.number(),
+  endOffset: z.number(),
+  startLine: z.number(),
+  endLine: z.number(),
+  score: z.number(),
+});
+
+/**
+ * Passages packed into a token budget
+ */
+export interface ContextResult {
+  /** Numbered passages, ready to paste into a prompt */
+  context: string;
+  citations: Citation[];
+  tokenCount: number;
+  /** Whether relevant passages were left out for lack of budget */
+  truncated: boolean;
+}
+
+export const ContextResultSchema = z.object({
+  context: z.string(),
+  citations: z.array(CitationSchema),
+  tokenCount: z.number(),
+  truncated: z.boolean(),
+});
+
+/**
+ * Hybrid retrieval configuration
+ */
+export interface HybridSearchConfig {
+  keywordWeight?: number;
+  semanticWeight?: number;
+  rrfK?: number;
+}
+
+export const HybridSearchConfigSchema = z.object({
+  keywordWeight: z.number().optional().default(1),
+  semanticWeight: z.number().optional().default(1),
+  rrfK: z.number().optional().default(60),
+});
+
+/**
+ * Result diversification configuration
+ */
+export interface DiversityConfig {
+  /** Reorder results with maximal marginal relevance (default: false) */
+  enabled?: boolean;
+  /** Relevance/novelty trade-off: 1 ranks by score only (default: 0.7) */
+  lambda?: number;
+  /** Default: 'none' */
+  collapse?: CollapseMode;
+}
+
+export const DiversityConfigSchema = z.object({
+  enabled: z.boolean().optional().default(false),
+  lambda: z.number().min(0).max(1).optional().default(0.7),
+  collapse: CollapseModeSchema.optional().default('none'),
+});
+
+/**
+ * Reranking configuration
+ */
+export interface RerankConfig {
+  /** Rerank with the built-in heuristic reranker unless another is set (default: false) */
+  enabled?: boolean;
+  /** Number of first-stage candidates to rerank (default: 50) */
+  candidates?: number;
+}
+
+export const RerankConfigSchema = z.object({
+  enabled: z.boolean().optional().default(false),
+  candidates: z.number().int().min(1).optional().default(50),
+});
+
+/**
+ * Keyword ranking (BM25F) configuration
+ */
+export interface RankingConfig {
+  k1?: number;
+  b?: number;
+  fieldBoosts?: {
+    title?: number;
+    content?: number;
+  };
+  /** Typo-tolerant matching of words missing from the vocabulary */
+  fuzzy?: {
+    /** Default: true */
+    enabled?: boolean;
+    /** Maximum edits per word (default: 2; fewer for short words) */
+    maxEdits?: number;
+    /** Score factor per edit of a near-miss match (default: 0.8) */
+    weight?: number;
+  };
+}
+
+export const RankingConfigSchema = z.object({
+  k1: z.number().optional().default(1.2),
+  b: z.number().min(0).max(1).optional().default(0.75),
+  fieldBoosts: z.object({
+    title: z.number().optional().default(2),
+    content: z.number().optional().default(1),
+  }).optional(),
+  fuzzy: z.object({
+    enabled: z.boolean().optional().default(true),
+    maxEdits: z.number().int().min(0).max(2).optional().default(2),
+    weight: z.number().min(0).max(1).optional().default(0.8),
+  }).optional(),
+});
+
+/**
+ * Text analysis configuration for keyword search
+ */
+export interface AnalysisConfig {
+  /** Reduce words to English stems (default: true) */
+  stemming?: boolean;
+  /** Words left out of the index (default: English stop words; [] for none) */
+  stopWords?: string[];
+  /** Split camelCase and snake_case identifiers into words (default: true) */
+  splitIdentifiers?: boolean;
+  /** Terms and the words they also match, e.g. `{ k8s: ['kubernetes'] }` */
+  synonyms?: Record<string, string[]>;
+}
+
+export const AnalysisConfigSchema = z.object({
+  stemming: z.boolean().optional().default(true),
+  stopWords: z.array(z.string()).optional(),
+  splitIdentifiers: z.boolean().optional().default(true),
+  synonyms: z.record(z.array(z.string())).optional(),
+});
+
+/**
+ * On-disk persistence configuration
+ */
+export interface PersistenceConfig {
+  directory: string;
+}
+
+export const PersistenceConfigSchema = z.object({
+  directory: z.string(),
 });
 
 /**
@@ -129,15 +412,36 @@ export const KnowledgeResultSchema = z.object({
 export interface KnowledgeProviderConfig {
   chunkSize?: number;
   chunkOverlap?: number;
+  chunkUnit?: 'characters' | 'tokens';
   maxResults?: number;
+  /** Minimum keyword score of a hit (default: 0, any hit) */
   minScore?: number;
+  /** Minimum cosine similarity of a semantic hit (default: 0) */
+  semanticMinScore?: number;
+  hybrid?: HybridSearchConfig;
+  rerank?: RerankConfig;
+  diversity?: DiversityConfig;
+  ranking?: RankingConfig;
+  analysis?: AnalysisConfig;
+  persistence?: PersistenceConfig;
+  /** Days tombstones of removed documents are kept (default: 30) */
+  tombstoneRetentionDays?: number;
 }
 
 export const KnowledgeProviderConfigSchema = z.object({
   chunkSize: z.number().optional().default(1000),
   chunkOverlap: z.number().optional().default(200),
+  chunkUnit: z.enum(['characters', 'tokens']).optional().default('characters'),
   maxResults: z.number().optional().default(10),
-  minScore: z.number().optional().default(0.5),
+  minScore: z.number().optional().default(0),
+  semanticMinScore: z.number().optional().default(0),
+  hybrid: HybridSearchConfigSchema.optional(),
+  rerank: RerankConfigSchema.optional(),
+  diversity: DiversityConfigSchema.optional(),
+  ranking: RankingConfigSchema.optional(),
+  analysis: AnalysisConfigSchema.optional(),
+  persistence: PersistenceConfigSchema.optional(),
+  tombstoneRetentionDays: z.number().min(0).optional().default(30),
 });
 
 /**
@@ -158,3 +462,20 @@ export const SourceStatusSchema = z.object({
   lastSync: z.string().optional(),
   error: z.string().optional(),
 });
+
+/**
+ * Outcome of syncing one or more sources
+ */
+export interface SyncStats {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export const SyncStatsSchema = z.object({
+  added: z.number(),
+  updated: z.number(),
+  removed: z.number(),
+  unchanged: z.number(),
+});
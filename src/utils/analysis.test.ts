@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer, porterStem, type AnalyzedToken } from './analysis.js';
+
+function terms(tokens: AnalyzedToken[]): string[] {
+  return tokens.map(({ term, position }) => `${position}:${term}`);
+}
+
+describe('Analyzer identifiers', () => {
+  it('splits camelCase into words, keeping the whole identifier', () => {
+    expect(terms(new Analyzer().analyze('registerSource'))).toEqual(['0:registersourc', '0:regist', '1:sourc']);
+  });
+
+  it('splits acronyms and snake_case, shifting later positions', () => {
+    const analyzer = new Analyzer({ stemming: false });
+
+    expect(terms(analyzer.analyze('HTTPServer max_retry_count'))).toEqual([
+      '0:httpserver', '0:http', '1:server', '2:max_retry_count', '2:max', '3:retry', '4:count',
+    ]);
+  });
+
+  it('can be switched off', () => {
+    expect(terms(new Analyzer({ splitIdentifiers: false }).analyze('registerSource'))).toEqual(['0:registersourc']);
+  });
+});
+
+describe('Analyzer synonyms', () => {
+  it('adds lowercased synonyms, including each word of multi-word values, at the same position', () => {
+    const analyzer = new Analyzer({ synonyms: { K8s: ['Kubernetes', 'kube cluster'] } });
+
+    expect(terms(analyzer.analyze('deploy k8s pods'))).toEqual([
+      '0:deploy', '1:k8s', '1:kubernet', '1:kube', '1:cluster', '2:pod',
+    ]);
+  });
+
+  it('does not expand synonyms again', () => {
+    const analyzer = new Analyzer({ stemming: false, synonyms: { db: ['database'], database: ['postgres'] } });
+
+    expect(terms(analyzer.analyze('db'))).toEqual(['0:db', '0:database']);
+  });
+});
+
+describe('Analyzer stemming and stop words', () => {
+  it('drops stop words, leaving gaps in positions', () => {
+    expect(terms(new Analyzer().analyze('the retries of connections'))).toEqual(['1:retri', '3:connect']);
+  });
+
+  it('keeps every word when both are switched off', () => {
+    expect(terms(new Analyzer({ stemming: false, stopWords: [] }).analyze('the Running'))).toEqual(['0:the', '1:running']);
+  });
+
+  it('reduces inflected forms to one stem', () => {
+    const stems = (words: string[]) => new Set(words.map(porterStem));
+
+    expect(stems(['connect', 'connected', 'connecting', 'connection', 'connections'])).toEqual(new Set(['connect']));
+    expect(stems(['retry', 'retries', 'retried'])).toEqual(new Set(['retri']));
+    expect(porterStem('caresses')).toBe('caress');
+    expect(porterStem('ponies')).toBe('poni');
+    expect(porterStem('generalization')).toBe('gener');
+  });
+
+  it('leaves short words and terms with non-letters alone', () => {
+    expect(['is', 'k8s', 'v2', 'é'].map(porterStem)).toEqual(['is', 'k8s', 'v2', 'é']);
+  });
+});
+
+describe('Analyzer signature', () => {
+  it('is the same for equivalent configurations', () => {
+    const signature = new Analyzer().signature;
+
+    expect(new Analyzer({ stemming: true, splitIdentifiers: true }).signature).toBe(signature);
+    expect(new Analyzer({ synonyms: { a: ['x'], b: ['y'] } }).signature)
+      .toBe(new Analyzer({ synonyms: { b: ['y'], a: ['x'] } }).signature);
+    expect(new Analyzer({ synonyms: {} }).signature).toBe(signature);
+  });
+
+  it('changes with anything affecting the terms', () => {
+    const signatures = [
+      new Analyzer(),
+      new Analyzer({ stemming: false }),
+      new Analyzer({ splitIdentifiers: false }),
+      new Analyzer({ stopWords: [] }),
+      new Analyzer({ stopWords: ['the'] }),
+      new Analyzer({ synonyms: { k8s: ['kubernetes'] } }),
+      new Analyzer({ synonyms: { k8s: ['kube'] } }),
+      new Analyzer({}, [{ name: 'custom', apply: tokens => tokens }]),
+    ].map(analyzer => analyzer.signature);
+
+    expect(new Set(signatures).size).toBe(signatures.length);
+  });
+});
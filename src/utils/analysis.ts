@@ -0,0 +1,338 @@
+import crypto from 'crypto';
+import type { AnalysisConfig } from '../types/index.js';
+
+/**
+ * A term with its position in the token stream
+ *
+ * Terms sharing a position are alternatives (identifier parts, synonyms).
+ */
+export interface AnalyzedToken {
+  term: string;
+  position: number;
+}
+
+/**
+ * A step of an analyzer chain
+ */
+export interface TokenFilter {
+  readonly name: string;
+  apply(tokens: AnalyzedToken[]): AnalyzedToken[];
+}
+
+/**
+ * Default English stop words
+ */
+export const ENGLISH_STOP_WORDS = [
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+  'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'then', 'there', 'these',
+  'they', 'this', 'to', 'was', 'will', 'with',
+];
+
+/**
+ * Text analyzer turning text into index terms
+ *
+ * Runs the same chain for indexing and querying: split on non-word
+ * characters, split camelCase/snake_case identifiers, lowercase, drop
+ * stop words, expand synonyms and stem. Each step can be switched off in
+ * the configuration, and custom filters run after the built-in ones.
+ * Stop words leave gaps in positions, so phrases still line up.
+ */
+export class Analyzer {
+  private filters: TokenFilter[];
+  private config: AnalysisConfig;
+
+  constructor(config: AnalysisConfig = {}, customFilters: TokenFilter[] = []) {
+    this.config = config;
+    this.filters = [];
+
+    if (config.splitIdentifiers !== false) this.filters.push(identifierSplitFilter());
+    this.filters.push(lowercaseFilter());
+
+    const stopWords = config.stopWords ?? ENGLISH_STOP_WORDS;
+    if (stopWords.length > 0) this.filters.push(stopWordFilter(stopWords));
+
+    if (config.synonyms && Object.keys(config.synonyms).length > 0) {
+      this.filters.push(synonymFilter(config.synonyms));
+    }
+    if (config.stemming !== false) this.filters.push(stemFilter());
+
+    this.filters.push(...customFilters);
+  }
+
+  /**
+   * Analyze text into terms with positions
+   */
+  analyze(text: string): AnalyzedToken[] {
+    let tokens: AnalyzedToken[] = text
+      .split(/[^\p{L}\p{N}_]+/u)
+      .filter(word => word.length > 0)
+      .map((term, position) => ({ term, position }));
+
+    for (const filter of this.filters) {
+      tokens = filter.apply(tokens);
+    }
+
+    // Alternatives at one position are deduplicated
+    const seen = new Set<string>();
+    return tokens.filter(({ term, position }) => {
+      const key = `${position}:${term}`;
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Fingerprint of the analyzer configuration
+   *
+   * Indexes built with a different signature must be rebuilt. Describes
+   * the effective chain, so configurations spelling out the defaults or
+   * listing entries in another order share a signature.
+   */
+  get signature(): string {
+    const stopWords = new Set((this.config.stopWords ?? ENGLISH_STOP_WORDS).map(word => word.toLowerCase()));
+    const description = JSON.stringify({
+      stopWords: Array.from(stopWords).sort(),
+      synonyms: sortedEntries(this.config.synonyms || {}),
+      filters: this.filters.map(filter => filter.name),
+    });
+    return crypto.createHash('sha256').update(description).digest('hex').slice(0, 16);
+  }
+}
+
+/**
+ * Split camelCase, PascalCase and snake_case identifiers into words
+ *
+ * The parts take consecutive positions and the whole identifier is kept
+ * at the position of the first part, so `registerSource` matches both
+ * `registerSource` and "register source".
+ */
+export function identifierSplitFilter(): TokenFilter {
+  return {
+    name: 'identifiers',
+    apply(tokens) {
+      const result: AnalyzedToken[] = [];
+      let shift = 0;
+
+      for (const { term, position } of tokens) {
+        const parts = splitIdentifier(term);
+        const start = position + shift;
+
+        if (parts.length > 1) {
+          result.push({ term, position: start });
+          parts.forEach((part, i) => result.push({ term: part, position: start + i }));
+          shift += parts.length - 1;
+        } else {
+          result.push({ term, position: start });
+        }
+      }
+
+      return result;
+    },
+  };
+}
+
+/**
+ * Lowercase terms
+ */
+export function lowercaseFilter(): TokenFilter {
+  return { name: 'lowercase', apply: tokens => mapTerms(tokens, term => term.toLowerCase()) };
+}
+
+/**
+ * Drop stop words, keeping the positions of the other terms
+ */
+export function stopWordFilter(words: string[]): TokenFilter {
+  const stopWords = new Set(words.map(word => word.toLowerCase()));
+  return { name: 'stop', apply: tokens => tokens.filter(token => !stopWords.has(token.term)) };
+}
+
+/**
+ * Reduce terms to their English stems
+ */
+export function stemFilter(): TokenFilter {
+  return { name: 'porter', apply: tokens => mapTerms(tokens, porterStem) };
+}
+
+/**
+ * Add the synonyms of terms at the same position
+ *
+ * Keys and values are matched and emitted lowercase; multi-word values
+ * add each of their words. Expansions are not expanded again.
+ */
+export function synonymFilter(synonyms: Record<string, string[]>): TokenFilter {
+  const table = new Map<string, string[]>();
+  for (const [term, values] of Object.entries(synonyms)) {
+    const words = values.flatMap(value => value.toLowerCase().split(/[^\p{L}\p{N}_]+/u)).filter(Boolean);
+    table.set(term.toLowerCase(), [...(table.get(term.toLowerCase()) || []), ...words]);
+  }
+
+  return {
+    name: 'synonyms',
+    apply(tokens) {
+      return tokens.flatMap(token => [
+        token,
+        ...(table.get(token.term) || []).map(term => ({ term, position: token.position })),
+      ]);
+    },
+  };
+}
+
+/**
+ * Split an identifier on underscores and case changes
+ */
+function splitIdentifier(word: string): string[] {
+  return word
+    .split(/_+/)
+    .flatMap(part => part.split(/(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u))
+    .filter(part => part.length > 0);
+}
+
+function mapTerms(tokens: AnalyzedToken[], map: (term: string) => string): AnalyzedToken[] {
+  return tokens.map(token => ({ term: map(token.term), position: token.position }));
+}
+
+function sortedEntries(record: Record<string, string[]>): Array<[string, string[]]> {
+  return Object.entries(record).sort(([a], [b]) => a.localeCompare(b));
+}
+
+const STEP2_SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+];
+
+const STEP3_SUFFIXES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou',
+  'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+/**
+ * Reduce an English word to its stem (Porter, 1980, with the Porter2
+ * rule for final -y)
+ *
+ * Words shorter than three letters and terms with characters other
+ * than a-z are returned unchanged.
+ */
+export function porterStem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (!w.endsWith('ss') && w.endsWith('s')) w = w.slice(0, -1);
+
+  // Step 1b: -ed, -ing
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : '';
+    const stem = suffix ? w.slice(0, -suffix.length) : '';
+
+    if (suffix && hasVowel(stem)) {
+      w = stem;
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCvc(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i after a consonant that is not the first letter
+  // (the Porter2 rule, so "deploying" and "deployment" share a stem)
+  if (w.endsWith('y') && w.length > 2 && !'aeiouy'.includes(w[w.length - 2])) w = w.slice(0, -1) + 'i';
+
+  // Steps 2 and 3: double and single suffixes
+  w = replaceSuffix(w, STEP2_SUFFIXES);
+  w = replaceSuffix(w, STEP3_SUFFIXES);
+
+  // Step 4: remove suffixes in longer stems
+  const step4 = STEP4_SUFFIXES
+    .filter(suffix => w.endsWith(suffix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (step4) {
+    const stem = w.slice(0, -step4.length);
+    if (measure(stem) > 1 && (step4 !== 'ion' || /[st]$/.test(stem))) w = stem;
+  }
+
+  // Step 5a: final -e
+  if (w.endsWith('e')) {
+    const stem = w.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) w = stem;
+  }
+
+  // Step 5b: -ll
+  if (measure(w) > 1 && w.endsWith('ll')) w = w.slice(0, -1);
+
+  return w;
+}
+
+/**
+ * Replace the longest matching suffix if the remaining stem has m > 0
+ */
+function replaceSuffix(word: string, suffixes: Array<[string, string]>): string {
+  const match = suffixes
+    .filter(([suffix]) => word.endsWith(suffix))
+    .sort(([a], [b]) => b.length - a.length)[0];
+  if (!match) return word;
+
+  const stem = word.slice(0, -match[0].length);
+  return measure(stem) > 0 ? stem + match[1] : word;
+}
+
+function isConsonant(word: string, i: number): boolean {
+  const char = word[i];
+  if ('aeiou'.includes(char)) return false;
+  if (char === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+/**
+ * Number of vowel-consonant sequences in a stem ([C](VC)^m[V])
+ */
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    m++;
+  }
+
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  return n >= 3
+    && isConsonant(word, n - 3)
+    && !isConsonant(word, n - 2)
+    && isConsonant(word, n - 1)
+    && !/[wxy]$/.test(word);
+}
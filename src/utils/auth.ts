@@ -0,0 +1,426 @@
+import fs from 'fs/promises';
+import { ApiRequestError } from './http.js';
+
+/**
+ * Where a secret comes from: the value itself, an environment variable
+ * or a file (trimmed)
+ */
+export type SecretSource = string | { env: string } | { file: string };
+
+/**
+ * An access token and when it expires
+ */
+export interface AccessToken {
+  token: string;
+  /** Expiry in epoch milliseconds; unset if unknown */
+  expiresAt?: number;
+}
+
+/**
+ * The outgoing request an auth strategy signs
+ */
+export interface AuthRequest {
+  url: URL;
+  headers: Headers;
+}
+
+/**
+ * Authentication of API requests
+ *
+ * `ApiSource` initializes the strategy when it connects, applies it to
+ * every request, and on a 401 response calls `refresh` and retries the
+ * request once if it returns true.
+ */
+export interface AuthStrategy {
+  readonly name: string;
+  /** Load credentials, e.g. read secrets or fetch a first token */
+  initialize(): Promise<void>;
+  /** Add credentials to a request */
+  apply(request: AuthRequest): Promise<void>;
+  /**
+   * Renew credentials after they were rejected
+   *
+   * @returns whether retrying with the new credentials may succeed
+   */
+  refresh(): Promise<boolean>;
+  /** Credentials currently held, to be redacted from errors and logs */
+  secrets(): string[];
+}
+
+/**
+ * Error raised when credentials cannot be loaded or obtained
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Read a secret from its source
+ */
+export async function resolveSecret(source: SecretSource): Promise<string> {
+  if (typeof source === 'string') return source;
+
+  if ('env' in source) {
+    const value = process.env[source.env];
+    if (!value) throw new AuthError(`Environment variable ${source.env} is not set`);
+    return value;
+  }
+
+  let value: string;
+  try {
+    value = (await fs.readFile(source.file, 'utf-8')).trim();
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code ?? 'unknown error';
+    throw new AuthError(`Cannot read secret file ${source.file}: ${code}`);
+  }
+  if (!value) throw new AuthError(`Secret file ${source.file} is empty`);
+  return value;
+}
+
+/**
+ * A secret resolved once and re-read on demand
+ */
+class LoadedSecret {
+  private value?: string;
+
+  constructor(private readonly source: SecretSource) {}
+
+  async get(): Promise<string> {
+    this.value ??= await resolveSecret(this.source);
+    return this.value;
+  }
+
+  /**
+   * Read the secret again, e.g. after the file was rotated
+   *
+   * @returns whether the value changed
+   */
+  async reload(): Promise<boolean> {
+    const previous = this.value;
+    this.value = await resolveSecret(this.source);
+    return this.value !== previous;
+  }
+
+  peek(): string | undefined {
+    return this.value;
+  }
+}
+
+/**
+ * Base of strategies sending an expiring `Authorization: Bearer` token
+ *
+ * Tokens are renewed when they are about to expire and when the API
+ * rejects them; concurrent requests share one renewal.
+ */
+export abstract class TokenAuth implements AuthStrategy {
+  abstract readonly name: string;
+  protected current?: AccessToken;
+  private pending?: Promise<AccessToken>;
+
+  /**
+   * @param refreshSkewMs renew tokens this long before they expire
+   */
+  constructor(private readonly refreshSkewMs: number = 30_000) {}
+
+  async initialize(): Promise<void> {
+    await this.renew();
+  }
+
+  async apply(request: AuthRequest): Promise<void> {
+    const expiresAt = this.current?.expiresAt;
+    if (!this.current || (expiresAt !== undefined && Date.now() >= expiresAt - this.refreshSkewMs)) {
+      await this.renew();
+    }
+    request.headers.set('authorization', `Bearer ${this.current!.token}`);
+  }
+
+  async refresh(): Promise<boolean> {
+    await this.renew();
+    return true;
+  }
+
+  secrets(): string[] {
+    return this.current ? [this.current.token] : [];
+  }
+
+  /**
+   * Obtain a new token
+   */
+  protected abstract fetchToken(): Promise<AccessToken>;
+
+  private async renew(): Promise<void> {
+    this.pending ??= this.fetchToken().finally(() => {
+      this.pending = undefined;
+    });
+    this.current = await this.pending;
+  }
+}
+
+/**
+ * Options for bearer token authentication
+ */
+export interface BearerTokenAuthOptions {
+  /** A fixed token, or a function returning a fresh token when called */
+  token: SecretSource | (() => Promise<string | AccessToken>);
+  /** Renew tokens this long before they expire (default: 30000) */
+  refreshSkewMs?: number;
+}
+
+/**
+ * `Authorization: Bearer <token>`
+ *
+ * A fixed token is re-read when the API rejects it, so a rotated
+ * environment variable or file is picked up; the request is only
+ * retried if the token changed.
+ */
+export class BearerTokenAuth extends TokenAuth {
+  readonly name = 'bearer';
+  private readonly secret?: LoadedSecret;
+
+  constructor(private readonly options: BearerTokenAuthOptions) {
+    super(options.refreshSkewMs);
+    if (typeof options.token !== 'function') this.secret = new LoadedSecret(options.token);
+  }
+
+  async refresh(): Promise<boolean> {
+    if (!this.secret) return super.refresh();
+
+    const changed = await this.secret.reload();
+    this.current = { token: await this.secret.get() };
+    return changed;
+  }
+
+  protected async fetchToken(): Promise<AccessToken> {
+    if (this.secret) return { token: await this.secret.get() };
+
+    const token = await (this.options.token as () => Promise<string | AccessToken>)();
+    return typeof token === 'string' ? { token } : token;
+  }
+}
+
+/**
+ * Options for the OAuth2 client credentials grant
+ */
+export interface OAuth2ClientCredentialsOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: SecretSource;
+  scope?: string | string[];
+  /** Extra form parameters of the token request, e.g. `audience` */
+  params?: Record<string, string>;
+  /** Send the client credentials as HTTP Basic auth or in the form (default: 'header') */
+  credentials?: 'header' | 'body';
+  /** Time limit of token requests (default: 30000) */
+  timeoutMs?: number;
+  /** Renew tokens this long before they expire (default: 30000) */
+  refreshSkewMs?: number;
+}
+
+/**
+ * OAuth2 client credentials grant (RFC 6749 section 4.4)
+ *
+ * Fetches an access token from the token endpoint at connect time and
+ * again whenever it is about to expire or is rejected.
+ */
+export class OAuth2ClientCredentialsAuth extends TokenAuth {
+  readonly name = 'oauth2-client-credentials';
+  private readonly clientSecret: LoadedSecret;
+
+  constructor(private readonly options: OAuth2ClientCredentialsOptions) {
+    super(options.refreshSkewMs);
+    this.clientSecret = new LoadedSecret(options.clientSecret);
+  }
+
+  secrets(): string[] {
+    const clientSecret = this.clientSecret.peek();
+    return clientSecret ? [...super.secrets(), clientSecret] : super.secrets();
+  }
+
+  protected async fetchToken(): Promise<AccessToken> {
+    const { tokenUrl, clientId, scope, params } = this.options;
+    const clientSecret = await this.clientSecret.get();
+
+    const form = new URLSearchParams({ grant_type: 'client_credentials', ...params });
+    if (scope) form.set('scope', Array.isArray(scope) ? scope.join(' ') : scope);
+
+    const headers = new Headers({
+      'content-type': 'application/x-www-form-urlencoded',
+      accept: 'application/json',
+    });
+    if (this.options.credentials === 'body') {
+      form.set('client_id', clientId);
+      form.set('client_secret', clientSecret);
+    } else {
+      const encoded = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.set('authorization', `Basic ${Buffer.from(encoded).toString('base64')}`);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(tokenUrl, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? 30_000),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AuthError(`OAuth2 token request failed: ${message}`);
+    }
+
+    const body = await response.json().catch(() => ({})) as {
+      access_token?: string;
+      expires_in?: number;
+      error?: string;
+    };
+
+    if (!response.ok || !body.access_token) {
+      // The error code (e.g. invalid_client) is safe to report; descriptions may echo input
+      const reason = typeof body.error === 'string' ? ` (${body.error})` : '';
+      throw new AuthError(`OAuth2 token request failed: ${response.status}${reason}`);
+    }
+
+    return {
+      token: body.access_token,
+      expiresAt: typeof body.expires_in === 'number' ? Date.now() + body.expires_in * 1000 : undefined,
+    };
+  }
+}
+
+/**
+ * Options for HTTP Basic authentication
+ */
+export interface BasicAuthOptions {
+  username: string;
+  password: SecretSource;
+}
+
+/**
+ * `Authorization: Basic <base64(username:password)>`
+ */
+export class BasicAuth implements AuthStrategy {
+  readonly name = 'basic';
+  private readonly password: LoadedSecret;
+
+  constructor(private readonly options: BasicAuthOptions) {
+    this.password = new LoadedSecret(options.password);
+  }
+
+  async initialize(): Promise<void> {
+    await this.password.get();
+  }
+
+  async apply(request: AuthRequest): Promise<void> {
+    request.headers.set('authorization', `Basic ${this.encode(await this.password.get())}`);
+  }
+
+  async refresh(): Promise<boolean> {
+    return this.password.reload();
+  }
+
+  secrets(): string[] {
+    const password = this.password.peek();
+    return password ? [password, this.encode(password)] : [];
+  }
+
+  private encode(password: string): string {
+    return Buffer.from(`${this.options.username}:${password}`).toString('base64');
+  }
+}
+
+/**
+ * Options for API key authentication
+ */
+export interface ApiKeyAuthOptions {
+  key: SecretSource;
+  /** Header carrying the key (default: 'X-API-Key') */
+  header?: string;
+  /** Send the key as this query parameter instead of a header */
+  query?: string;
+  /** Text before the key in the header, e.g. 'Token ' */
+  prefix?: string;
+}
+
+/**
+ * An API key in a header or query parameter
+ */
+export class ApiKeyAuth implements AuthStrategy {
+  readonly name = 'api-key';
+  private readonly key: LoadedSecret;
+
+  constructor(private readonly options: ApiKeyAuthOptions) {
+    this.key = new LoadedSecret(options.key);
+  }
+
+  async initialize(): Promise<void> {
+    await this.key.get();
+  }
+
+  async apply(request: AuthRequest): Promise<void> {
+    const key = await this.key.get();
+    if (this.options.query) {
+      request.url.searchParams.set(this.options.query, key);
+    } else {
+      request.headers.set(this.options.header ?? 'x-api-key', `${this.options.prefix ?? ''}${key}`);
+    }
+  }
+
+  async refresh(): Promise<boolean> {
+    return this.key.reload();
+  }
+
+  secrets(): string[] {
+    const key = this.key.peek();
+    return key ? [key, encodeURIComponent(key)] : [];
+  }
+}
+
+/**
+ * Secrets shorter than this are not redacted; replacing every
+ * occurrence of a few characters would garble messages
+ */
+const MIN_REDACTED_LENGTH = 4;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Replace every occurrence of the secrets in a text
+ */
+export function redactSecrets(text: string, secrets: string[]): string {
+  const redactable = secrets
+    .filter(secret => secret.length >= MIN_REDACTED_LENGTH)
+    .sort((a, b) => b.length - a.length);
+
+  let redacted = text;
+  for (const secret of redactable) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * An error with the secrets redacted from its message, stack and URL
+ *
+ * Errors free of the secrets are returned as they are; others are
+ * copied, without their `cause`.
+ */
+export function redactErrorSecrets(error: unknown, secrets: string[]): unknown {
+  if (!(error instanceof Error)) {
+    return typeof error === 'string' ? redactSecrets(error, secrets) : error;
+  }
+
+  const url = error instanceof ApiRequestError ? error.url : '';
+  const exposed = [error.message, error.stack ?? '', url].some(text => redactSecrets(text, secrets) !== text);
+  if (!exposed) return error;
+
+  const message = redactSecrets(error.message, secrets);
+  const copy = error instanceof ApiRequestError
+    ? new ApiRequestError(message, redactSecrets(url, secrets), error.status, error.retryable, error.retryAfterMs)
+    : new Error(message);
+  copy.name = error.name;
+  copy.stack = error.stack && redactSecrets(error.stack, secrets);
+  return copy;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkingUtils } from './chunking.js';
+import type { Document } from '../types/index.js';
+
+/**
+ * Seeded pseudo-random numbers (mulberry32), so failures can be replayed
+ */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const WORDS = ['retry', 'backoff', 'install', 'the', 'a', 'server', 'é', 'naïve', 'config', 'x'.repeat(150)];
+
+function generate(rand: () => number): Document {
+  const pick = <T>(items: T[]): T => items[Math.floor(rand() * items.length)];
+  const int = (max: number) => Math.floor(rand() * max);
+  const words = (max: number, pool = WORDS) => Array.from({ length: 1 + int(max) }, () => pick(pool)).join(' ');
+  const newline = rand() < 0.2 ? '\r\n' : '\n';
+  const type = pick<Document['type']>(['markdown', 'text', 'code', 'json', 'html']);
+
+  const blocks: string[] = [];
+  for (let i = 0, count = 1 + int(12); i < count; i++) {
+    switch (type) {
+      case 'markdown':
+        blocks.push(pick([
+          () => `${'#'.repeat(1 + int(3))} ${words(4)}`,
+          () => `${words(80)}.`,
+          () => `\`\`\`${newline}${words(10)}${newline}\`\`\``,
+          () => `- ${words(6)}${newline}- ${words(6)}`,
+        ])());
+        break;
+      case 'code':
+        blocks.push(`function f${i}() {${newline}  return '${words(30)}';${newline}}`);
+        break;
+      case 'html':
+        // HTML headings are kept whole, so keep them shorter than a chunk
+        blocks.push(`<h2>${words(4, WORDS.slice(0, -1))}</h2><p>${words(60)}. ${words(20)}</p>`);
+        break;
+      default:
+        blocks.push(`${words(40)}. ${words(40)}!`);
+    }
+  }
+
+  const content = type === 'json'
+    ? JSON.stringify(Object.fromEntries(blocks.map((block, i) => [`key${i}`, { text: block, list: [i, words(5)] }])), null, 2)
+    : (type === 'markdown' && rand() < 0.5 ? `---${newline}title: ${words(3)}${newline}---${newline}` : '')
+      + blocks.join(newline.repeat(1 + int(2)));
+
+  return {
+    id: 'doc',
+    type,
+    content,
+    metadata: { source: 'test', language: type === 'code' ? 'typescript' : undefined },
+  };
+}
+
+/**
+ * 1-based line of an offset, counted independently of the chunker
+ */
+function lineAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+describe('ChunkingUtils offsets (property-based)', () => {
+  it('slice back to the chunk content and match the reported lines', () => {
+    for (let seed = 1; seed <= 300; seed++) {
+      const rand = random(seed);
+      const document = generate(rand);
+      const chunkSize = 100 + Math.floor(rand() * 400);
+      const unit = rand() < 0.3 ? 'tokens' : 'characters';
+      const chunking = new ChunkingUtils(chunkSize, Math.floor(rand() * chunkSize / 2), { unit });
+      const { content } = document;
+      const context = `seed ${seed} (${document.type}, ${unit} ${chunkSize})`;
+
+      for (const chunk of chunking.chunk(document)) {
+        expect(chunk.startOffset, context).toBeGreaterThanOrEqual(0);
+        expect(chunk.endOffset, context).toBeGreaterThan(chunk.startOffset);
+        expect(chunk.endOffset, context).toBeLessThanOrEqual(content.length);
+        expect(chunk.startLine, context).toBe(lineAt(content, chunk.startOffset));
+        expect(chunk.endLine, context).toBe(lineAt(content, chunk.endOffset - 1));
+
+        // HTML chunks hold the text extracted from their range
+        if (document.type !== 'html') {
+          expect(chunk.content, context).toBe(content.slice(chunk.startOffset, chunk.endOffset));
+        }
+        if (document.type === 'markdown' || document.type === 'text' || document.type === 'html') {
+          expect(chunking.measure(chunk.content), context).toBeLessThanOrEqual(chunkSize);
+        }
+      }
+    }
+  });
+});
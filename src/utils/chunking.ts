@@ -1,4 +1,46 @@
 import type { Document, DocumentChunk } from '../types/index.js';
+import { extractSymbols, maskCode, qualifiedSymbolName, type CodeSymbol } from './symbols.js';
+import { CharacterTokenizer, ApproximateTokenizer, type Tokenizer } from './tokenizer.js';
+import { childPointer, JsonSyntaxError, parseJsonRanges, type JsonNode } from './json.js';
+import { extractHtmlBlocks, type HtmlBlock } from './html.js';
+import { parseFrontMatter } from './frontmatter.js';
+
+/**
+ * Chunking options
+ */
+export interface ChunkingOptions {
+  /** Unit of `chunkSize` and `overlap` (default: characters) */
+  unit?: 'characters' | 'tokens';
+  /** Tokenizer for the `tokens` unit (default: ApproximateTokenizer) */
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * A range of a document with the markdown headings it sits under
+ */
+interface Section {
+  start: number;
+  end: number;
+  headings?: string[];
+}
+
+/**
+ * A contiguous range of source code, optionally belonging to a symbol
+ */
+interface CodeUnit {
+  start: number;
+  end: number;
+  symbol?: CodeSymbol;
+}
+
+/**
+ * A range of a JSON document and the pointer of the value it holds
+ */
+interface JsonUnit {
+  start: number;
+  end: number;
+  pointer: string;
+}
 
 /**
  * Utilities for chunking documents
@@ -6,85 +48,525 @@ import type { Document, DocumentChunk } from '../types/index.js';
 export class ChunkingUtils {
   private chunkSize: number;
   private overlap: number;
+  private tokenizer: Tokenizer;
 
-  constructor(chunkSize: number = 1000, overlap: number = 200) {
+  constructor(chunkSize: number = 1000, overlap: number = 200, options: ChunkingOptions = {}) {
     this.chunkSize = chunkSize;
     this.overlap = overlap;
+    this.tokenizer = options.unit === 'tokens'
+      ? options.tokenizer || new ApproximateTokenizer()
+      : new CharacterTokenizer();
+  }
+
+  /**
+   * Size of a text in the configured unit
+   */
+  measure(text: string): number {
+    return this.tokenizer.count(text);
   }
 
   /**
    * Chunk a document
+   *
+   * Chunks are ranges of the original content: `chunk.content` is
+   * `document.content.slice(chunk.startOffset, chunk.endOffset)`, and
+   * `startLine`/`endLine` give the 1-based lines it spans. HTML is the
+   * exception: its chunks hold the text extracted from that range.
+   * Markdown front-matter is left out of the chunks. Sections larger
+   * than the chunk size are split by sentence, then by word.
    */
   chunk(document: Document): DocumentChunk[] {
+    if (document.type === 'code') {
+      const codeChunks = this.chunkCode(document);
+      if (codeChunks) return codeChunks;
+    }
+    if (document.type === 'json') {
+      const jsonChunks = this.chunkJson(document);
+      if (jsonChunks) return jsonChunks;
+    }
+    if (document.type === 'html') {
+      return this.chunkHtml(document);
+    }
+
     const chunks: DocumentChunk[] = [];
     const content = document.content;
+    const lineStarts = computeLineStarts(content);
+    const bodyStart = document.type === 'markdown' ? parseFrontMatter(content).bodyOffset : 0;
 
-    if (content.length <= this.chunkSize) {
-      // Single chunk for small documents
+    const pushChunk = (start: number, end: number, title?: string) => {
       chunks.push({
-        id: `${document.id}-chunk-0`,
+        id: `${document.id}-chunk-${chunks.length}`,
         documentId: document.id,
-        content,
-        startOffset: 0,
-        endOffset: content.length,
+        type: document.type,
+        title,
+        content: content.slice(start, end),
+        startOffset: start,
+        endOffset: end,
+        startLine: lineNumberAt(lineStarts, start),
+        endLine: lineNumberAt(lineStarts, end - 1),
         metadata: document.metadata,
       });
+    };
+
+    if (this.measure(content.slice(bodyStart)) <= this.chunkSize) {
+      // Single chunk for small documents
+      pushChunk(bodyStart, content.length, document.title);
       return chunks;
     }
 
     // Split by semantic boundaries (paragraphs, headers, etc.)
-    const sections = this.splitSemantically(content, document.type);
+    const sections = this.splitSemantically(content.slice(bodyStart), document.type, document.metadata.language)
+      .map(section => ({ ...section, start: section.start + bodyStart, end: section.end + bodyStart }))
+      .flatMap(section => this.fitRange(content, section));
+
+    let chunkStart = bodyStart;
+    let chunkEnd = bodyStart;
+    let currentSize = 0;
+    let currentHeadings: string[] | undefined;
 
-    let currentChunk = '';
-    let startOffset = 0;
-    let chunkIndex = 0;
+    const pushCurrent = () => {
+      const [start, end] = trimRange(content, chunkStart, chunkEnd);
+      if (end > start) {
+        pushChunk(start, end, currentHeadings?.length ? currentHeadings.join(' > ') : document.title);
+      }
+    };
 
     for (const section of sections) {
-      if (currentChunk.length + section.length > this.chunkSize && currentChunk.length > 0) {
+      const sectionSize = this.measure(content.slice(section.start, section.end));
+
+      if (currentSize + sectionSize > this.chunkSize && content.slice(chunkStart, chunkEnd).trim()) {
         // Save current chunk
+        pushCurrent();
+
+        // Start new chunk with overlap
+        const overlapText = this.overlapTail(content.slice(chunkStart, chunkEnd));
+        chunkStart = chunkEnd - overlapText.length;
+        currentSize = this.measure(overlapText);
+        currentHeadings = undefined;
+
+        // Drop the overlap rather than exceed the chunk size
+        if (currentSize + sectionSize > this.chunkSize) {
+          chunkStart = section.start;
+          currentSize = 0;
+        }
+      }
+
+      // A chunk is titled after the first section that starts in it
+      currentHeadings ??= section.headings;
+      chunkEnd = section.end;
+      currentSize += sectionSize;
+    }
+
+    // Don't forget the last chunk
+    pushCurrent();
+
+    return chunks;
+  }
+
+  /**
+   * Split a range larger than the chunk size into parts that fit
+   *
+   * Parts end at sentence or line boundaries, then at word boundaries;
+   * a single word larger than the chunk size is cut into pieces. Parts
+   * are contiguous and cover the range, so they can stand in for it.
+   *
+   * @param limit size of the parts (default: the chunk size)
+   */
+  private fitRange<T extends { start: number; end: number }>(
+    content: string,
+    range: T,
+    limit: number = this.chunkSize,
+    level: number = 0
+  ): T[] {
+    if (this.measure(content.slice(range.start, range.end)) <= limit) {
+      return [range];
+    }
+
+    for (; level < SPLIT_BOUNDARIES.length; level++) {
+      const pieces = splitAfter(content, range.start, range.end, SPLIT_BOUNDARIES[level]);
+      if (pieces.length < 2) continue;
+
+      // Pack consecutive pieces up to the chunk size; pieces still too large go a level down
+      const parts: T[] = [];
+      let current: T | null = null;
+      let currentSize = 0;
+      for (const piece of pieces) {
+        const size = this.measure(content.slice(piece.start, piece.end));
+        if (current && currentSize + size <= limit) {
+          current.end = piece.end;
+          currentSize += size;
+        } else {
+          if (current) parts.push(current);
+          current = { ...range, start: piece.start, end: piece.end };
+          currentSize = size;
+        }
+      }
+      parts.push(current!);
+
+      return parts.flatMap(part => this.fitRange(content, part, limit, level + 1));
+    }
+
+    // No boundary left: cut on characters, which never hold more than one token each
+    const step = Math.max(1, limit);
+    const parts: T[] = [];
+    for (let start = range.start; start < range.end; start += step) {
+      parts.push({ ...range, start, end: Math.min(range.end, start + step) });
+    }
+    return parts;
+  }
+
+  /**
+   * Get the overlap to carry into the next chunk
+   *
+   * Returns the longest tail of the text that fits the overlap size and
+   * starts at a sentence boundary, or failing that at a line or word
+   * boundary, so overlaps never begin mid-word. Tails that would split a
+   * fenced code block are skipped.
+   */
+  private overlapTail(text: string): string {
+    if (this.overlap <= 0) return '';
+
+    for (const boundary of [/(?:[.!?]["')\]]*\s+|\n\s*\n)/g, /\n+/g, /\s+/g]) {
+      for (const match of text.matchAll(boundary)) {
+        const tail = text.slice(match.index! + match[0].length);
+        const fences = tail.match(/^\s*(```|~~~)/gm)?.length || 0;
+
+        if (tail.trim() && fences % 2 === 0 && this.measure(tail) <= this.overlap) {
+          return tail;
+        }
+      }
+    }
+
+    return '';
+  }
+
+  /**
+   * Chunk source code on symbol boundaries
+   *
+   * Each top-level function, class or type becomes its own chunk; classes
+   * larger than the chunk size are split into their members. Code between
+   * symbols (imports, constants) forms separate chunks, and anything still
+   * too large is split on line boundaries. Chunk metadata carries the
+   * qualified symbol name and its kind.
+   *
+   * @returns null when the language is unknown or no symbols are found
+   */
+  chunkCode(document: Document): DocumentChunk[] | null {
+    const content = document.content;
+    const language = document.metadata.language;
+    if (!language) return null;
+
+    const symbols = extractSymbols(content, language);
+    if (symbols.length === 0) return null;
+
+    const contains = (outer: CodeSymbol, inner: CodeSymbol) =>
+      outer !== inner && inner.startOffset >= outer.startOffset && inner.endOffset <= outer.endOffset;
+    const topLevel = symbols.filter(sym => !symbols.some(other => contains(other, sym)));
+
+    const units: CodeUnit[] = [];
+    let cursor = 0;
+
+    for (const symbol of topLevel) {
+      units.push({ start: cursor, end: symbol.startOffset });
+
+      const members = symbols.filter(sym => contains(symbol, sym));
+      const symbolText = content.slice(symbol.startOffset, symbol.endOffset);
+      if (members.length > 0 && this.measure(symbolText) > this.chunkSize) {
+        // Split oversized containers into header, members and the code between them
+        let inner = symbol.startOffset;
+        for (const member of members.filter(m => !members.some(other => contains(other, m)))) {
+          units.push({ start: inner, end: member.startOffset, symbol });
+          units.push({ start: member.startOffset, end: member.endOffset, symbol: member });
+          inner = member.endOffset;
+        }
+        units.push({ start: inner, end: symbol.endOffset, symbol });
+      } else {
+        units.push({ start: symbol.startOffset, end: symbol.endOffset, symbol });
+      }
+
+      cursor = symbol.endOffset;
+    }
+    units.push({ start: cursor, end: content.length });
+
+    const lineStarts = computeLineStarts(content);
+    const chunks: DocumentChunk[] = [];
+
+    for (const unit of units) {
+      // Skip whitespace and stray closing braces between symbols
+      if (/^[\s{}();,]*$/.test(content.slice(unit.start, unit.end))) continue;
+
+      for (const part of this.splitLines(content, unit)) {
+        const startLine = lineNumberAt(lineStarts, part.start);
+        const endLine = lineNumberAt(lineStarts, part.end - 1);
+        const name = part.symbol ? qualifiedSymbolName(part.symbol) : undefined;
+
         chunks.push({
-          id: `${document.id}-chunk-${chunkIndex}`,
+          id: `${document.id}-chunk-${chunks.length}`,
           documentId: document.id,
-          content: currentChunk.trim(),
-          startOffset,
-          endOffset: startOffset + currentChunk.length,
-          metadata: document.metadata,
+          type: document.type,
+          title: name
+            ? [document.title, `${name} (${part.symbol!.kind})`].filter(Boolean).join(' > ')
+            : document.title,
+          content: content.slice(part.start, part.end),
+          startOffset: part.start,
+          endOffset: part.end,
+          startLine,
+          endLine,
+          metadata: part.symbol
+            ? { ...document.metadata, symbol: name, symbolKind: part.symbol.kind }
+            : document.metadata,
         });
+      }
+    }
 
-        // Start new chunk with overlap
-        const overlapText = currentChunk.slice(-this.overlap);
-        startOffset = startOffset + currentChunk.length - this.overlap;
-        currentChunk = overlapText;
-        chunkIndex++;
+    return chunks;
+  }
+
+  /**
+   * Chunk JSON on value boundaries
+   *
+   * Values that fit the chunk size become one chunk; larger objects and
+   * arrays are split into their members, and runs of small sibling
+   * members are grouped up to the chunk size. Chunk metadata carries the
+   * JSON pointer (RFC 6901) of the value, or of the parent for groups.
+   *
+   * @returns null when the content is not valid JSON
+   */
+  chunkJson(document: Document): DocumentChunk[] | null {
+    const content = document.content;
+    let root: JsonNode;
+
+    try {
+      root = parseJsonRanges(content);
+    } catch (error) {
+      if (error instanceof JsonSyntaxError) return null;
+      throw error;
+    }
+
+    const units: JsonUnit[] = [];
+
+    const visit = (node: JsonNode, start: number, pointer: string) => {
+      if (node.children.length === 0 || this.measure(content.slice(start, node.end)) <= this.chunkSize) {
+        units.push({ start, end: node.end, pointer });
+        return;
+      }
+
+      let group: JsonUnit | null = null;
+      let groupSize = 0;
+      const flushGroup = () => {
+        if (group) units.push(group);
+        group = null;
+        groupSize = 0;
+      };
+
+      for (const member of node.children) {
+        const memberPointer = childPointer(pointer, member.key);
+        const size = this.measure(content.slice(member.start, member.value.end));
+
+        if (size > this.chunkSize) {
+          flushGroup();
+          visit(member.value, member.start, memberPointer);
+          continue;
+        }
+
+        if (group && groupSize + size > this.chunkSize) flushGroup();
+        group = group
+          ? { start: group.start, end: member.value.end, pointer }
+          : { start: member.start, end: member.value.end, pointer: memberPointer };
+        groupSize += size;
       }
 
-      currentChunk += section;
+      flushGroup();
+    };
+
+    visit(root, root.start, '');
+
+    const lineStarts = computeLineStarts(content);
+    const chunks: DocumentChunk[] = [];
+
+    for (const unit of units) {
+      for (const part of this.splitLines(content, unit)) {
+        chunks.push({
+          id: `${document.id}-chunk-${chunks.length}`,
+          documentId: document.id,
+          type: document.type,
+          title: [document.title, unit.pointer].filter(Boolean).join(' > ') || undefined,
+          content: content.slice(part.start, part.end),
+          startOffset: part.start,
+          endOffset: part.end,
+          startLine: lineNumberAt(lineStarts, part.start),
+          endLine: lineNumberAt(lineStarts, part.end - 1),
+          metadata: { ...document.metadata, jsonPointer: unit.pointer },
+        });
+      }
     }
 
-    // Don't forget the last chunk
-    if (currentChunk.trim().length > 0) {
+    return chunks;
+  }
+
+  /**
+   * Chunk HTML into its readable text
+   *
+   * Markup, scripts and styles are dropped (see `extractHtmlBlocks`) and
+   * the text blocks are packed into chunks, breaking between blocks.
+   * Headings are rendered as markdown headings and stay with the block
+   * that follows them; chunks are titled with their heading path. Offsets
+   * and lines span the markup the chunk's text was extracted from. The
+   * overlap repeats whole trailing blocks of the previous chunk.
+   *
+   * Blocks larger than the chunk size are split by sentence, then by word,
+   * like other text; their parts share the block's source range.
+   */
+  chunkHtml(document: Document): DocumentChunk[] {
+    const content = document.content;
+    const lineStarts = computeLineStarts(content);
+    const chunks: DocumentChunk[] = [];
+    const render = (block: HtmlBlock) => (block.level ? `${'#'.repeat(block.level)} ${block.text}` : block.text);
+    const sizeOf = (blocks: HtmlBlock[]) => this.measure(blocks.map(render).join('\n\n'));
+    const separatorSize = this.measure('\n\n');
+
+    let current: HtmlBlock[] = [];
+    let currentSize = 0;
+    let titleHeadings: string[] | undefined;
+
+    const pushChunk = (blocks: HtmlBlock[]) => {
+      const first = blocks[0];
+      const last = blocks[blocks.length - 1];
       chunks.push({
-        id: `${document.id}-chunk-${chunkIndex}`,
+        id: `${document.id}-chunk-${chunks.length}`,
         documentId: document.id,
-        content: currentChunk.trim(),
-        startOffset,
-        endOffset: startOffset + currentChunk.length,
+        type: document.type,
+        title: titleHeadings?.length ? titleHeadings.join(' > ') : document.title,
+        content: blocks.map(render).join('\n\n'),
+        startOffset: first.start,
+        endOffset: last.end,
+        startLine: lineNumberAt(lineStarts, first.start),
+        endLine: lineNumberAt(lineStarts, last.end - 1),
         metadata: document.metadata,
       });
+    };
+
+    // Split oversized blocks, leaving room for the headings that stay with them
+    // (at most half a chunk). The extracted text has no finer mapping to the
+    // markup than its block, so parts keep the block's range.
+    const blocks: HtmlBlock[] = [];
+    let headings: HtmlBlock[] = [];
+    for (const block of extractHtmlBlocks(content)) {
+      if (block.level) {
+        headings.push(block);
+        blocks.push(block);
+        continue;
+      }
+
+      const headingsSize = headings.length > 0 ? sizeOf(headings) + separatorSize : 0;
+      const limit = Math.max(this.chunkSize - headingsSize, Math.ceil(this.chunkSize / 2));
+      headings = [];
+      for (const part of this.fitRange(block.text, { start: 0, end: block.text.length }, limit)) {
+        const text = block.text.slice(part.start, part.end).trim();
+        if (text) blocks.push({ ...block, text });
+      }
+    }
+
+    for (const block of blocks) {
+      const blockSize = this.measure(render(block));
+      const addedSize = current.length > 0 ? separatorSize + blockSize : blockSize;
+
+      if (currentSize + addedSize > this.chunkSize && current.some(b => !b.level)) {
+        // Headings at the end move on with the block they introduce
+        let split = current.length;
+        while (current[split - 1].level) split--;
+        const carried = current.slice(split);
+        pushChunk(current.slice(0, split));
+
+        // Repeat whole trailing blocks that fit the overlap (never the whole chunk)
+        const overlap: HtmlBlock[] = [];
+        for (let i = split - 1; i > 0; i--) {
+          if (sizeOf([current[i], ...overlap]) > this.overlap) break;
+          overlap.unshift(current[i]);
+        }
+
+        current = [...overlap, ...carried];
+        currentSize = sizeOf(current);
+
+        // Drop the overlap rather than exceed the chunk size
+        if (current.length > 0 && currentSize + separatorSize + blockSize > this.chunkSize) {
+          current = carried;
+          currentSize = sizeOf(carried);
+        }
+        titleHeadings = carried[0]?.headings;
+      }
+
+      // A chunk is titled after the first block that starts in it
+      titleHeadings ??= block.headings;
+      currentSize += current.length > 0 ? separatorSize + blockSize : blockSize;
+      current.push(block);
+    }
+
+    if (current.length > 0) {
+      pushChunk(current);
     }
 
     return chunks;
   }
 
+  /**
+   * Trim a unit to its non-whitespace extent and split it into
+   * line-aligned parts no larger than the chunk size
+   *
+   * A single line larger than the chunk size becomes its own part.
+   */
+  private splitLines<T extends { start: number; end: number }>(content: string, unit: T): T[] {
+    const [start, end] = trimRange(content, unit.start, unit.end);
+    if (end <= start) return [];
+
+    if (this.measure(content.slice(start, end)) <= this.chunkSize) {
+      return [{ ...unit, start, end }];
+    }
+
+    const parts: T[] = [];
+    let partStart = start;
+    let partEnd = start;
+    let size = 0;
+    let lineStart = start;
+
+    while (lineStart < end) {
+      const newline = content.indexOf('\n', lineStart);
+      const lineEnd = newline === -1 || newline >= end ? end : newline;
+      const lineSize = this.measure(content.slice(lineStart, lineEnd + 1));
+
+      if (size + lineSize > this.chunkSize && partEnd > partStart) {
+        parts.push({ ...unit, start: partStart, end: partEnd });
+        partStart = lineStart;
+        size = 0;
+      }
+
+      size += lineSize;
+      partEnd = lineEnd;
+      lineStart = lineEnd + 1;
+    }
+
+    parts.push({ ...unit, start: partStart, end: partEnd });
+
+    // Drop whitespace at part edges so content matches its offsets
+    return parts
+      .map(part => {
+        const [s, e] = trimRange(content, part.start, part.end);
+        return { ...part, start: s, end: e };
+      })
+      .filter(part => part.end > part.start);
+  }
+
   /**
    * Split content by semantic boundaries
+   *
+   * Sections are contiguous ranges covering the whole content.
    */
-  private splitSemantically(content: string, type: Document['type']): string[] {
+  private splitSemantically(content: string, type: Document['type'], language?: string): Section[] {
     switch (type) {
       case 'markdown':
         return this.splitMarkdown(content);
       case 'code':
-        return this.splitCode(content);
+        return this.splitCode(content, language);
       default:
         return this.splitParagraphs(content);
     }
@@ -92,32 +574,48 @@ export class ChunkingUtils {
 
   /**
    * Split markdown content
+   *
+   * Sections carry the path of headings above them. Lines inside fenced
+   * code blocks are never treated as headers or boundaries.
    */
-  private splitMarkdown(content: string): string[] {
+  private splitMarkdown(content: string): Section[] {
     // Split by headers and paragraphs
-    const sections: string[] = [];
-    const lines = content.split('\n');
-    let currentSection = '';
+    const sections: Section[] = [];
+    const headings: string[] = [];
+    let sectionStart = 0;
+    let inFence = false;
+
+    const pushSection = (end: number) => {
+      sections.push({ start: sectionStart, end, headings: [...headings] });
+      sectionStart = end;
+    };
+
+    for (const { start, end, text: line } of lines(content)) {
+      const current = content.slice(sectionStart, start);
+
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        continue;
+      }
+
+      const header = inFence ? null : line.match(/^(#{1,6})\s+(.*?)[\s#]*$/);
 
-    for (const line of lines) {
       // Check if it's a header
-      if (line.match(/^#{1,6}\s/)) {
-        if (currentSection.trim()) {
-          sections.push(currentSection);
+      if (header) {
+        if (current.trim()) {
+          pushSection(start);
         }
-        currentSection = line + '\n';
-      } else if (line.trim() === '' && currentSection.trim()) {
-        // Empty line - potential section boundary
-        currentSection += '\n';
-        sections.push(currentSection);
-        currentSection = '';
-      } else {
-        currentSection += line + '\n';
+        const level = header[1].length;
+        headings.length = Math.min(headings.length, level - 1);
+        headings.push(header[2]);
+      } else if (!inFence && line.trim() === '' && current.trim() && !isHeadingOnly(current)) {
+        // Empty line - potential section boundary (headings stay with their first paragraph)
+        pushSection(end);
       }
     }
 
-    if (currentSection.trim()) {
-      sections.push(currentSection);
+    if (sectionStart < content.length) {
+      pushSection(content.length);
     }
 
     return sections;
@@ -126,31 +624,29 @@ export class ChunkingUtils {
   /**
    * Split code content
    */
-  private splitCode(content: string): string[] {
+  private splitCode(content: string, language: string = ''): Section[] {
     // Split by function/class definitions and empty lines
-    const sections: string[] = [];
-    const lines = content.split('\n');
-    let currentSection = '';
+    const sections: Section[] = [];
+    // Braces inside strings and comments must not affect the depth
+    const masked = maskCode(content, language);
+    let sectionStart = 0;
     let braceDepth = 0;
 
-    for (const line of lines) {
+    for (const { start, end, text: line } of lines(content)) {
       // Track brace depth for languages like JS, TS, Java, etc.
-      braceDepth += (line.match(/{/g) || []).length;
-      braceDepth -= (line.match(/}/g) || []).length;
-
-      currentSection += line + '\n';
+      const maskedLine = masked.slice(start, end);
+      braceDepth += (maskedLine.match(/{/g) || []).length;
+      braceDepth -= (maskedLine.match(/}/g) || []).length;
 
       // Split at top-level boundaries
-      if (braceDepth === 0 && line.trim() === '') {
-        if (currentSection.trim()) {
-          sections.push(currentSection);
-          currentSection = '';
-        }
+      if (braceDepth === 0 && line.trim() === '' && content.slice(sectionStart, start).trim()) {
+        sections.push({ start: sectionStart, end });
+        sectionStart = end;
       }
     }
 
-    if (currentSection.trim()) {
-      sections.push(currentSection);
+    if (sectionStart < content.length) {
+      sections.push({ start: sectionStart, end: content.length });
     }
 
     return sections;
@@ -159,17 +655,30 @@ export class ChunkingUtils {
   /**
    * Split by paragraphs (default)
    */
-  private splitParagraphs(content: string): string[] {
-    return content
-      .split(/\n\n+/)
-      .map(p => p.trim() + '\n\n')
-      .filter(p => p.trim().length > 0);
+  private splitParagraphs(content: string): Section[] {
+    const sections: Section[] = [];
+    let sectionStart = 0;
+
+    for (const match of content.matchAll(/\n\s*\n/g)) {
+      const end = match.index! + match[0].length;
+      sections.push({ start: sectionStart, end });
+      sectionStart = end;
+    }
+
+    if (sectionStart < content.length) {
+      sections.push({ start: sectionStart, end: content.length });
+    }
+
+    return sections;
   }
 
   /**
    * Merge small chunks
+   *
+   * Pass the chunked document so merged chunks keep content that matches
+   * their offsets; without it, merged contents are joined with a newline.
    */
-  mergeSmallChunks(chunks: DocumentChunk[], minSize: number = 100): DocumentChunk[] {
+  mergeSmallChunks(chunks: DocumentChunk[], minSize: number = 100, document?: Document): DocumentChunk[] {
     const merged: DocumentChunk[] = [];
     let current: DocumentChunk | null = null;
 
@@ -183,8 +692,11 @@ export class ChunkingUtils {
         // Merge with next chunk
         current = {
           ...current,
-          content: current.content + '\n' + chunk.content,
+          content: document
+            ? document.content.slice(current.startOffset, chunk.endOffset)
+            : current.content + '\n' + chunk.content,
           endOffset: chunk.endOffset,
+          endLine: chunk.endLine,
         };
       } else {
         merged.push(current);
@@ -199,3 +711,87 @@ export class ChunkingUtils {
     return merged;
   }
 }
+
+/**
+ * Boundaries to split oversized sections at, from the most to the least
+ * preferred: sentence ends and line breaks, then any whitespace
+ */
+const SPLIT_BOUNDARIES = [/[.!?]["')\]]*\s+|\n/g, /\s+/g];
+
+/**
+ * Split a range into contiguous pieces, each ending after a boundary match
+ */
+function splitAfter(content: string, start: number, end: number, boundary: RegExp): Array<{ start: number; end: number }> {
+  const pieces: Array<{ start: number; end: number }> = [];
+  let pieceStart = start;
+
+  for (const match of content.slice(start, end).matchAll(boundary)) {
+    const at = start + match.index! + match[0].length;
+    if (at > pieceStart && at < end) {
+      pieces.push({ start: pieceStart, end: at });
+      pieceStart = at;
+    }
+  }
+
+  if (pieceStart < end) pieces.push({ start: pieceStart, end });
+  return pieces;
+}
+
+/**
+ * Check whether a markdown section consists of a single heading line
+ */
+function isHeadingOnly(section: string): boolean {
+  return /^#{1,6}\s[^\n]*\n*$/.test(section);
+}
+
+/**
+ * Iterate the lines of content with their offsets
+ *
+ * `end` includes the line break; `text` excludes it.
+ */
+function* lines(content: string): Generator<{ start: number; end: number; text: string }> {
+  let start = 0;
+
+  while (start < content.length) {
+    const newline = content.indexOf('\n', start);
+    const end = newline === -1 ? content.length : newline + 1;
+    yield { start, end, text: content.slice(start, end).replace(/\r?\n$/, '') };
+    start = end;
+  }
+}
+
+/**
+ * Shrink a range to exclude leading and trailing whitespace
+ */
+function trimRange(content: string, start: number, end: number): [number, number] {
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  return [start, end];
+}
+
+/**
+ * Offsets at which each line starts
+ */
+function computeLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * 1-based line number containing an offset
+ */
+function lineNumberAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+
+  return low + 1;
+}
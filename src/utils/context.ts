@@ -0,0 +1,81 @@
+import type { Citation, ContextResult } from '../types/index.js';
+import type { SearchResult } from './search.js';
+import { ApproximateTokenizer, type Tokenizer } from './tokenizer.js';
+
+/**
+ * Options for packing passages into a context block
+ */
+export interface ContextPackOptions {
+  /** Token budget of the whole block */
+  maxTokens: number;
+  /** Default: `ApproximateTokenizer` */
+  tokenizer?: Tokenizer;
+}
+
+const SEPARATOR = '\n\n';
+
+/**
+ * Pack passages into a token budget as numbered, cited blocks
+ *
+ * Candidates are taken in order, each as a list of alternatives from
+ * most to least preferred (e.g. a passage expanded with its neighbors,
+ * then the bare hit). The first alternative that still fits is added;
+ * candidates with none that fit are skipped, so smaller ones further
+ * down can fill the remaining budget.
+ */
+export function packContext(candidates: SearchResult[][], options: ContextPackOptions): ContextResult {
+  const tokenizer = options.tokenizer ?? new ApproximateTokenizer();
+  const separatorTokens = tokenizer.count(SEPARATOR);
+  const blocks: string[] = [];
+  const citations: Citation[] = [];
+  let tokenCount = 0;
+  let truncated = false;
+
+  for (const alternatives of candidates) {
+    const id = citations.length + 1;
+    const cost = (block: string) => tokenizer.count(block) + (blocks.length > 0 ? separatorTokens : 0);
+
+    const fit = alternatives
+      .map(result => ({ result, block: formatPassage(id, result) }))
+      .find(({ block }) => tokenCount + cost(block) <= options.maxTokens);
+
+    if (!fit) {
+      truncated = true;
+      continue;
+    }
+    if (fit.result !== alternatives[0]) truncated = true;
+
+    tokenCount += cost(fit.block);
+    blocks.push(fit.block);
+    citations.push(citationFor(id, fit.result));
+  }
+
+  return { context: blocks.join(SEPARATOR), citations, tokenCount, truncated };
+}
+
+/**
+ * Render a passage under its citation header, e.g.
+ * `[1] Deploy guide (guides/deploy.md, lines 12-30)`
+ */
+function formatPassage(id: number, result: SearchResult): string {
+  const { chunk } = result;
+  const path = typeof chunk.metadata.path === 'string' ? chunk.metadata.path : undefined;
+  const location = [path ?? chunk.metadata.source, `lines ${chunk.startLine}-${chunk.endLine}`].join(', ');
+  return `[${id}] ${chunk.title || chunk.documentId} (${location})\n${chunk.content.trim()}`;
+}
+
+function citationFor(id: number, result: SearchResult): Citation {
+  const { chunk } = result;
+  return {
+    id,
+    documentId: chunk.documentId,
+    title: chunk.title,
+    source: chunk.metadata.source,
+    path: typeof chunk.metadata.path === 'string' ? chunk.metadata.path : undefined,
+    startOffset: chunk.startOffset,
+    endOffset: chunk.endOffset,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine,
+    score: result.score,
+  };
+}
@@ -0,0 +1,199 @@
+import type { DocumentChunk } from '../types/index.js';
+import type { SearchResult } from './search.js';
+
+/**
+ * Options for maximal marginal relevance
+ */
+export interface MmrOptions {
+  /**
+   * Trade-off between relevance and novelty: 1 ranks by score only,
+   * 0 by novelty only (default: 0.7)
+   */
+  lambda?: number;
+  /** Number of results to select (default: all) */
+  limit?: number;
+  /** Similarity of two chunks between 0 and 1 (default: `chunkSimilarity`) */
+  similarity?: (a: DocumentChunk, b: DocumentChunk) => number;
+}
+
+/**
+ * Reorder results with maximal marginal relevance
+ *
+ * Picks results one at a time, maximizing `lambda * score - (1 - lambda)
+ * * similarity to the closest pick`, so near-duplicates of a chosen hit
+ * drop below hits that add something new. Scores are left unchanged.
+ */
+export function maximalMarginalRelevance<T extends SearchResult>(results: T[], options: MmrOptions = {}): T[] {
+  const lambda = options.lambda ?? 0.7;
+  const limit = Math.min(options.limit ?? results.length, results.length);
+  const similarity = options.similarity ?? chunkSimilarity;
+
+  const remaining = [...results];
+  const closest = new Array<number>(remaining.length).fill(0);
+  const selected: T[] = [];
+
+  while (selected.length < limit) {
+    let best = 0;
+    let bestValue = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const value = lambda * remaining[i].score - (1 - lambda) * closest[i];
+      if (value > bestValue) {
+        best = i;
+        bestValue = value;
+      }
+    }
+
+    const [pick] = remaining.splice(best, 1);
+    closest.splice(best, 1);
+    selected.push(pick);
+
+    for (let i = 0; i < remaining.length; i++) {
+      closest[i] = Math.max(closest[i], similarity(pick.chunk, remaining[i].chunk));
+    }
+  }
+
+  return selected;
+}
+
+const wordSets = new WeakMap<DocumentChunk, Set<string>>();
+
+/**
+ * Lexical similarity of two chunks
+ *
+ * The Jaccard similarity of their word sets, or for chunks of one
+ * document the share of the shorter chunk that the two overlap, if
+ * higher.
+ */
+export function chunkSimilarity(a: DocumentChunk, b: DocumentChunk): number {
+  let overlap = 0;
+  if (a.documentId === b.documentId) {
+    const shared = Math.min(a.endOffset, b.endOffset) - Math.max(a.startOffset, b.startOffset);
+    const shorter = Math.min(a.endOffset - a.startOffset, b.endOffset - b.startOffset);
+    overlap = shared > 0 && shorter > 0 ? shared / shorter : 0;
+  }
+
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return overlap;
+
+  let common = 0;
+  for (const word of left) {
+    if (right.has(word)) common++;
+  }
+  return Math.max(overlap, common / (left.size + right.size - common));
+}
+
+/**
+ * Merge overlapping or adjacent hits from one document into passages
+ *
+ * Hits of a document are merged when their ranges overlap or touch, or,
+ * when `documentContent` is given, are separated by whitespace only. A
+ * passage takes the best score of its hits, their combined range and
+ * lines, and sits at the rank of its best hit. Its content is sliced
+ * from the document when available, otherwise stitched from the chunks.
+ * The IDs of the merged chunks are listed in `metadata.collapsedChunkIds`.
+ */
+export function collapseByDocument<T extends SearchResult>(
+  results: T[],
+  documentContent?: (documentId: string) => string | undefined
+): T[] {
+  const byDocument = new Map<string, T[]>();
+  for (const result of results) {
+    const hits = byDocument.get(result.chunk.documentId);
+    if (hits) hits.push(result);
+    else byDocument.set(result.chunk.documentId, [result]);
+  }
+
+  // Each hit maps to the passage it was merged into
+  const passages = new Map<T, T>();
+
+  for (const [documentId, hits] of byDocument) {
+    const content = documentContent?.(documentId);
+    const ordered = [...hits].sort((a, b) => a.chunk.startOffset - b.chunk.startOffset);
+    let group: T[] = [];
+
+    const flush = () => {
+      const passage = group.length > 1 ? mergeHits(group, content) : group[0];
+      for (const hit of group) passages.set(hit, passage);
+      group = [];
+    };
+
+    for (const hit of ordered) {
+      const end = group.length > 0 ? Math.max(...group.map(h => h.chunk.endOffset)) : 0;
+      const touches = group.length > 0 && (
+        hit.chunk.startOffset <= end ||
+        (content !== undefined && content.slice(end, hit.chunk.startOffset).trim() === '')
+      );
+
+      if (group.length > 0 && !touches) flush();
+      group.push(hit);
+    }
+    if (group.length > 0) flush();
+  }
+
+  const collapsed: T[] = [];
+  const emitted = new Set<T>();
+  for (const result of results) {
+    const passage = passages.get(result)!;
+    if (!emitted.has(passage)) {
+      emitted.add(passage);
+      collapsed.push(passage);
+    }
+  }
+  return collapsed;
+}
+
+/**
+ * Merge hits of one document, ordered by offset, into one passage
+ */
+function mergeHits<T extends SearchResult>(hits: T[], content?: string): T {
+  const best = hits.reduce((top, hit) => (hit.score > top.score ? hit : top));
+  const first = hits[0].chunk;
+  const startOffset = first.startOffset;
+  const endOffset = Math.max(...hits.map(hit => hit.chunk.endOffset));
+
+  // Chunks whose content is not a slice (HTML) are stitched instead
+  const sliced = content !== undefined && hits.every(hit =>
+    content.slice(hit.chunk.startOffset, hit.chunk.endOffset) === hit.chunk.content
+  );
+  const text = sliced
+    ? content!.slice(startOffset, endOffset)
+    : hits.slice(1).reduce((merged, hit) => stitch(merged, hit.chunk.content), first.content);
+
+  const highlights = Array.from(new Set(hits.flatMap(hit => hit.highlights || [])));
+
+  return {
+    ...best,
+    chunk: {
+      ...first,
+      content: text,
+      startOffset,
+      endOffset,
+      startLine: Math.min(...hits.map(hit => hit.chunk.startLine)),
+      endLine: Math.max(...hits.map(hit => hit.chunk.endLine)),
+      metadata: { ...first.metadata, collapsedChunkIds: hits.map(hit => hit.chunk.id) },
+    },
+    highlights: highlights.length > 0 ? highlights : undefined,
+  };
+}
+
+/**
+ * Join two texts, dropping the longest end of the first that starts the
+ * second
+ */
+function stitch(a: string, b: string): string {
+  for (let length = Math.min(a.length, b.length); length > 0; length--) {
+    if (a.endsWith(b.slice(0, length))) return a + b.slice(length);
+  }
+  return `${a}\n\n${b}`;
+}
+
+function words(chunk: DocumentChunk): Set<string> {
+  let set = wordSets.get(chunk);
+  if (!set) {
+    set = new Set(chunk.content.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []);
+    wordSets.set(chunk, set);
+  }
+  return set;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { HashingEmbedder, cosineSimilarity } from './embedding.js';
+import { VectorIndex } from './vector.js';
+import type { DocumentChunk } from '../types/index.js';
+
+function chunk(id: string, content: string, source = 'docs'): DocumentChunk {
+  return {
+    id,
+    documentId: id.split('#')[0],
+    type: 'text',
+    content,
+    startOffset: 0,
+    endOffset: content.length,
+    startLine: 1,
+    endLine: 1,
+    metadata: { source },
+  };
+}
+
+describe('HashingEmbedder', () => {
+  it('embeds deterministically with the configured dimensions', async () => {
+    const embedder = new HashingEmbedder({ dimensions: 64 });
+    const [a, b] = await embedder.embed(['Configure retries', 'Configure retries']);
+
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(embedder.name).toBe('hashing-64-3-4');
+  });
+
+  it('returns unit vectors, and a zero vector for text without words', async () => {
+    const [vector, empty] = await new HashingEmbedder().embed(['exponential backoff', '  ...  ']);
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1, 10);
+    expect(empty.every(v => v === 0)).toBe(true);
+  });
+
+  it('scores lexically related texts above unrelated ones', async () => {
+    const [query, related, unrelated] = await new HashingEmbedder().embed([
+      'retrying requests',
+      'Requests are retried with exponential backoff',
+      'The dashboard shows a weekly chart',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('is 1 for parallel, 0 for orthogonal and zero vectors', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1, 10);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('VectorIndex', () => {
+  it('finds the nearest chunks offline', async () => {
+    const embedder = new HashingEmbedder();
+    const chunks = [
+      chunk('a#0', 'Install the CLI with npm install'),
+      chunk('b#0', 'Rotate credentials every ninety days'),
+      chunk('c#0', 'Upgrade the CLI to the latest release'),
+    ];
+    const index = new VectorIndex();
+    const vectors = await embedder.embed(chunks.map(c => c.content));
+    chunks.forEach((c, i) => index.add(c, vectors[i]));
+
+    const [query] = await embedder.embed(['install cli']);
+    const results = index.search(query, 2);
+
+    expect(results.map(r => r.chunk.id)).toEqual(['a#0', 'c#0']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('applies filters before comparing vectors', async () => {
+    const embedder = new HashingEmbedder();
+    const index = new VectorIndex();
+    const chunks = [chunk('a#0', 'install guide', 'docs'), chunk('b#0', 'install guide', 'wiki')];
+    const vectors = await embedder.embed(chunks.map(c => c.content));
+    chunks.forEach((c, i) => index.add(c, vectors[i]));
+
+    const [query] = await embedder.embed(['install']);
+    const results = index.search(query, 10, { source: 'wiki' });
+
+    expect(results.map(r => r.chunk.id)).toEqual(['b#0']);
+  });
+
+  it('rejects vectors of another dimension', () => {
+    const index = new VectorIndex();
+    index.add(chunk('a#0', 'a'), [1, 0]);
+
+    expect(() => index.add(chunk('b#0', 'b'), [1, 0, 0])).toThrow(/dimension mismatch/);
+  });
+
+  it('removes all chunks of a document and restores snapshots', () => {
+    const index = new VectorIndex();
+    index.add(chunk('a#0', 'one'), [1, 0]);
+    index.add(chunk('a#1', 'two'), [0, 1]);
+    index.add(chunk('b#0', 'three'), [1, 1]);
+
+    const snapshot = index.snapshot();
+    expect(index.removeDocument('a')).toBe(2);
+    expect(index.count()).toBe(1);
+
+    index.restore(snapshot);
+    expect(index.count()).toBe(3);
+    expect(index.search([1, 0], 1)[0].chunk.id).toBe('a#0');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Embedding provider for dense retrieval
+ *
+ * Implementations turn text into fixed-size vectors. Remote providers
+ * (OpenAI, Cohere, local models) can be plugged in by implementing
+ * this interface.
+ */
+export interface EmbeddingProvider {
+  /** Identifier used to detect incompatible stored vectors */
+  readonly name: string;
+  /** Length of every vector returned by `embed` */
+  readonly dimensions: number;
+  /** Embed a batch of texts, returning one vector per input */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Options for the hashing embedder
+ */
+export interface HashingEmbedderOptions {
+  dimensions?: number;
+  minGram?: number;
+  maxGram?: number;
+}
+
+/**
+ * Deterministic local embedder based on hashed character n-grams
+ *
+ * Works offline and produces identical vectors for identical input,
+ * which makes it suitable for tests and small deployments. Similarity
+ * reflects lexical overlap rather than meaning.
+ */
+export class HashingEmbedder implements EmbeddingProvider {
+  public readonly name: string;
+  public readonly dimensions: number;
+  private minGram: number;
+  private maxGram: number;
+
+  constructor(options: HashingEmbedderOptions = {}) {
+    this.dimensions = options.dimensions ?? 256;
+    this.minGram = options.minGram ?? 3;
+    this.maxGram = options.maxGram ?? 4;
+    this.name = `hashing-${this.dimensions}-${this.minGram}-${this.maxGram}`;
+  }
+
+  /**
+   * Embed a batch of texts
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  /**
+   * Embed a single text
+   */
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text
+      .toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 0);
+
+    for (const word of words) {
+      // Whole-word feature plus padded character n-grams
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `<${word}>`;
+      for (let n = this.minGram; n <= this.maxGram; n++) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          this.addFeature(vector, padded.slice(i, i + n), 0.5);
+        }
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  /**
+   * Hash a feature into the vector using the signed hashing trick
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const bucket = hash % this.dimensions;
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    vector[bucket] += sign * weight;
+  }
+}
+
+/**
+ * Cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
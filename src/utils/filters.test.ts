@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { compareVersions, FilterIndex, matchesFilters } from './filters.js';
+import { SearchFiltersSchema, type DocumentChunk, type DocumentMetadata } from '../types/index.js';
+
+function chunk(id: string, metadata: Partial<DocumentMetadata>): DocumentChunk {
+  return {
+    id,
+    documentId: id.split('#')[0],
+    type: 'markdown',
+    content: id,
+    startOffset: 0,
+    endOffset: id.length,
+    startLine: 1,
+    endLine: 1,
+    metadata: { source: 'docs', ...metadata },
+  };
+}
+
+const chunks = [
+  chunk('docs:a.md#0', { updatedAt: '2024-01-01T00:00:00Z', tags: ['security', 'http'], version: '1.9' }),
+  chunk('docs:b.md#0', { updatedAt: '2024-06-15T12:00:00+02:00', tags: ['security'], version: '1.10' }),
+  chunk('docs:c.md#0', { tags: ['http'], version: 'v2.0' }),
+];
+
+function buildIndex(): FilterIndex {
+  const index = new FilterIndex();
+  for (const c of chunks) index.add(c);
+  return index;
+}
+
+describe('SearchFiltersSchema dates', () => {
+  it('accept ISO 8601 dates and date-times', () => {
+    for (const date of ['2024-01-01', '2024-01-01T00:00:00Z', '2024-06-15T12:00:00.500+02:00']) {
+      expect(SearchFiltersSchema.safeParse({ updatedAfter: date }).success, date).toBe(true);
+    }
+  });
+
+  it('reject other strings', () => {
+    for (const date of ['yesterday', 'March 7, 2024', '2024-13-01', '1700000000']) {
+      expect(SearchFiltersSchema.safeParse({ updatedBefore: date }).success, date).toBe(false);
+    }
+  });
+});
+
+describe('matchesFilters', () => {
+  it('compares update dates inclusively, across offsets', () => {
+    const [a, b, c] = chunks;
+
+    expect(matchesFilters(a, { updatedAfter: '2024-01-01' })).toBe(true);
+    expect(matchesFilters(b, { updatedAfter: '2024-06-15T10:00:00Z', updatedBefore: '2024-06-15T10:00:00Z' })).toBe(true);
+    expect(matchesFilters(b, { updatedBefore: '2024-06-15T09:59:59Z' })).toBe(false);
+    // Chunks without a date never match a date range
+    expect(matchesFilters(c, { updatedBefore: '2100-01-01' })).toBe(false);
+  });
+
+  it('compares versions per segment', () => {
+    const [a, b, c] = chunks;
+
+    expect(matchesFilters(a, { minVersion: '1.10' })).toBe(false);
+    expect(matchesFilters(b, { minVersion: '1.10', maxVersion: '1.10' })).toBe(true);
+    expect(matchesFilters(c, { minVersion: '2' })).toBe(true);
+    expect(compareVersions('1.10', '1.9')).toBeGreaterThan(0);
+  });
+});
+
+describe('FilterIndex', () => {
+  it('matches any or all tags', () => {
+    const index = buildIndex();
+
+    expect(index.match({ tags: ['security', 'http'] })).toEqual(new Set(['docs:a.md#0', 'docs:b.md#0', 'docs:c.md#0']));
+    expect(index.match({ tags: ['security', 'http'], tagMode: 'all' })).toEqual(new Set(['docs:a.md#0']));
+  });
+
+  it('combines equality and range conditions', () => {
+    const index = buildIndex();
+
+    expect(index.match({ tags: ['security'], updatedAfter: '2024-02-01' })).toEqual(new Set(['docs:b.md#0']));
+    expect(index.match({ source: 'wiki', updatedAfter: '2024-02-01' })).toEqual(new Set());
+  });
+
+  it('does not restrict results without conditions', () => {
+    expect(buildIndex().match({})).toBeUndefined();
+  });
+
+  it('forgets removed chunks', () => {
+    const index = buildIndex();
+    index.remove('docs:a.md#0');
+
+    expect(index.match({ tags: ['security'] })).toEqual(new Set(['docs:b.md#0']));
+  });
+});
@@ -0,0 +1,239 @@
+import type { DocumentChunk, FilterValue, SearchFilters } from '../types/index.js';
+
+/**
+ * Metadata keys left out of the posting lists; they are only used in
+ * range conditions, where every value is distinct
+ */
+const UNINDEXED_KEYS = new Set(['createdAt', 'updatedAt']);
+
+/**
+ * Check whether a chunk satisfies the given filters
+ */
+export function matchesFilters(chunk: DocumentChunk, filters: SearchFilters): boolean {
+  const { metadata } = chunk;
+
+  if (filters.source && metadata.source !== filters.source) return false;
+  if (filters.type && chunk.type !== filters.type) return false;
+  if (filters.language && metadata.language !== filters.language) return false;
+
+  if (filters.tags?.length) {
+    const hasTag = (tag: string) => metadata.tags?.includes(tag) ?? false;
+    const matched = filters.tagMode === 'all' ? filters.tags.every(hasTag) : filters.tags.some(hasTag);
+    if (!matched) return false;
+  }
+
+  if (filters.updatedAfter || filters.updatedBefore) {
+    const updated = metadata.updatedAt ? Date.parse(metadata.updatedAt) : NaN;
+    if (Number.isNaN(updated)) return false;
+    if (filters.updatedAfter && updated < Date.parse(filters.updatedAfter)) return false;
+    if (filters.updatedBefore && updated > Date.parse(filters.updatedBefore)) return false;
+  }
+
+  if (filters.minVersion || filters.maxVersion) {
+    if (!metadata.version) return false;
+    if (filters.minVersion && compareVersions(metadata.version, filters.minVersion) < 0) return false;
+    if (filters.maxVersion && compareVersions(metadata.version, filters.maxVersion) > 0) return false;
+  }
+
+  if (filters.pathPrefix) {
+    const path = metadata.path;
+    if (typeof path !== 'string' || !path.startsWith(filters.pathPrefix)) return false;
+  }
+
+  for (const [key, expected] of Object.entries(filters.metadata || {})) {
+    const actual = metadata[key];
+    const actualValues = Array.isArray(actual) ? actual : [actual];
+    const expectedValues = Array.isArray(expected) ? expected : [expected];
+    if (!expectedValues.some(value => actualValues.includes(value))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Compare version strings segment by segment
+ *
+ * Numeric segments compare as numbers (`1.10` > `1.9`), others as
+ * strings; a leading `v` is ignored and missing segments count as 0.
+ *
+ * @returns a negative number, zero or a positive number
+ */
+export function compareVersions(a: string, b: string): number {
+  const segments = (version: string) => version.trim().replace(/^v/i, '').split(/[.\-+]/);
+  const left = segments(a);
+  const right = segments(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? '0';
+    const y = right[i] ?? '0';
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
+
+/**
+ * Per-field posting lists of chunk metadata
+ *
+ * Resolves equality conditions (source, type, language, tags and other
+ * metadata keys) by intersecting posting lists, smallest first, and
+ * checks range and prefix conditions on the remaining candidates only.
+ * Indexes use it to restrict the chunks they score.
+ */
+export class FilterIndex {
+  private chunks: Map<string, DocumentChunk> = new Map();
+  private postings: Map<string, Map<string, Set<string>>> = new Map();
+
+  /**
+   * Add a chunk, replacing an existing one with the same ID
+   */
+  add(chunk: DocumentChunk): void {
+    if (this.chunks.has(chunk.id)) {
+      this.remove(chunk.id);
+    }
+
+    this.chunks.set(chunk.id, chunk);
+
+    for (const [field, value] of this.fieldValues(chunk)) {
+      let values = this.postings.get(field);
+      if (!values) {
+        values = new Map();
+        this.postings.set(field, values);
+      }
+
+      const key = valueKey(value);
+      let chunkIds = values.get(key);
+      if (!chunkIds) {
+        chunkIds = new Set();
+        values.set(key, chunkIds);
+      }
+      chunkIds.add(chunk.id);
+    }
+  }
+
+  /**
+   * Remove a chunk
+   */
+  remove(chunkId: string): boolean {
+    const chunk = this.chunks.get(chunkId);
+    if (!chunk) return false;
+
+    for (const [field, value] of this.fieldValues(chunk)) {
+      const values = this.postings.get(field);
+      const key = valueKey(value);
+      const chunkIds = values?.get(key);
+      if (!values || !chunkIds) continue;
+
+      chunkIds.delete(chunkId);
+      if (chunkIds.size === 0) values.delete(key);
+      if (values.size === 0) this.postings.delete(field);
+    }
+
+    return this.chunks.delete(chunkId);
+  }
+
+  /**
+   * Find the chunks matching the filters
+   *
+   * @returns the IDs of matching chunks, or undefined when the filters
+   * do not restrict the results
+   */
+  match(filters?: SearchFilters): Set<string> | undefined {
+    if (!filters || !hasConditions(filters)) return undefined;
+
+    const lists: Set<string>[] = [];
+
+    if (filters.source) lists.push(this.lookup('metadata.source', [filters.source]));
+    if (filters.type) lists.push(this.lookup('type', [filters.type]));
+    if (filters.language) lists.push(this.lookup('metadata.language', [filters.language]));
+
+    if (filters.tags?.length) {
+      if (filters.tagMode === 'all') {
+        for (const tag of filters.tags) lists.push(this.lookup('metadata.tags', [tag]));
+      } else {
+        lists.push(this.lookup('metadata.tags', filters.tags));
+      }
+    }
+
+    for (const [key, expected] of Object.entries(filters.metadata || {})) {
+      lists.push(this.lookup(`metadata.${key}`, Array.isArray(expected) ? expected : [expected]));
+    }
+
+    let candidates: Iterable<string> = this.chunks.keys();
+
+    if (lists.length > 0) {
+      lists.sort((a, b) => a.size - b.size);
+      const [smallest, ...rest] = lists;
+      candidates = Array.from(smallest).filter(id => rest.every(list => list.has(id)));
+    }
+
+    // Range and prefix conditions are checked on the candidates
+    const matched = new Set<string>();
+    for (const chunkId of candidates) {
+      const chunk = this.chunks.get(chunkId);
+      if (chunk && matchesFilters(chunk, filters)) matched.add(chunkId);
+    }
+
+    return matched;
+  }
+
+  /**
+   * Remove all chunks
+   */
+  clear(): void {
+    this.chunks.clear();
+    this.postings.clear();
+  }
+
+  /**
+   * Union of the posting lists of several values of a field
+   */
+  private lookup(field: string, values: FilterValue[]): Set<string> {
+    const postings = this.postings.get(field);
+    if (!postings) return new Set();
+    if (values.length === 1) return postings.get(valueKey(values[0])) || new Set();
+
+    const union = new Set<string>();
+    for (const value of values) {
+      for (const chunkId of postings.get(valueKey(value)) || []) union.add(chunkId);
+    }
+    return union;
+  }
+
+  /**
+   * Indexed field/value pairs of a chunk
+   */
+  private *fieldValues(chunk: DocumentChunk): Generator<[string, FilterValue]> {
+    yield ['type', chunk.type];
+
+    for (const [key, value] of Object.entries(chunk.metadata)) {
+      if (UNINDEXED_KEYS.has(key)) continue;
+
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean') {
+          yield [`metadata.${key}`, item];
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check whether filters contain any condition
+ */
+function hasConditions(filters: SearchFilters): boolean {
+  return Object.entries(filters).some(([key, value]) => {
+    if (value === undefined || key === 'tagMode') return false;
+    if (key === 'tags') return (value as string[]).length > 0;
+    if (key === 'metadata') return Object.keys(value as object).length > 0;
+    return value !== '';
+  });
+}
+
+/**
+ * Posting key of a value; keeps `1` and `'1'` apart
+ */
+function valueKey(value: FilterValue): string {
+  return `${typeof value}:${value}`;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseFrontMatter } from './frontmatter.js';
+import { ChunkingUtils } from './chunking.js';
+
+const content = '---\ntitle: Setup\nversion: 1.10\n---\n# Install\n\nRun the installer.\n';
+
+describe('parseFrontMatter', () => {
+  it('keeps versions and identifier-like numbers as written', () => {
+    const { data } = parseFrontMatter('---\nversion: 1.10\nid: 007\nbuild: 12345678901234567890\nweight: 2.5\n---\n');
+
+    expect(data).toEqual({ version: '1.10', id: '007', build: '12345678901234567890', weight: 2.5 });
+  });
+
+  it('reports where the body starts', () => {
+    const { body, bodyOffset } = parseFrontMatter(content);
+
+    expect(content.slice(bodyOffset)).toBe(body);
+    expect(body.startsWith('# Install')).toBe(true);
+  });
+});
+
+describe('ChunkingUtils with front-matter', () => {
+  it('leaves the front-matter out and counts lines from the top of the file', () => {
+    const document = { id: 'docs:setup.md', type: 'markdown' as const, content, metadata: { source: 'docs' } };
+    const [chunk] = new ChunkingUtils(1000, 200).chunk(document);
+
+    expect(chunk.content.startsWith('# Install')).toBe(true);
+    expect(chunk.startLine).toBe(5);
+    expect(content.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+  });
+});
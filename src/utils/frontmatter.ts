@@ -0,0 +1,236 @@
+/**
+ * Result of splitting front-matter from a document
+ */
+export interface FrontMatterResult {
+  data: Record<string, unknown>;
+  body: string;
+  /** Offset of `body` within the original content */
+  bodyOffset: number;
+}
+
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split YAML front-matter from markdown content
+ *
+ * Content without a leading `---` block is returned unchanged with empty
+ * data. Malformed front-matter is treated as regular content.
+ */
+export function parseFrontMatter(content: string): FrontMatterResult {
+  const match = content.match(FRONT_MATTER);
+  if (!match) {
+    return { data: {}, body: content, bodyOffset: 0 };
+  }
+
+  try {
+    return {
+      data: parseYamlSubset(match[1]),
+      body: content.slice(match[0].length),
+      bodyOffset: match[0].length,
+    };
+  } catch {
+    return { data: {}, body: content, bodyOffset: 0 };
+  }
+}
+
+/**
+ * Parse the YAML subset used in front-matter
+ *
+ * Supports nested mappings, block sequences (`- item`), flow sequences
+ * (`[a, b]`), quoted and plain scalars, and comments. Anchors, multi-line
+ * strings and flow mappings are not supported.
+ */
+export function parseYamlSubset(yaml: string): Record<string, unknown> {
+  const lines = yaml
+    .split(/\r?\n/)
+    .map(line => stripComment(line).replace(/\s+$/, ''))
+    .filter(line => line.trim().length > 0)
+    .map(line => ({ indent: line.length - line.trimStart().length, text: line.trim() }));
+
+  const [value] = parseBlock(lines, 0, 0);
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Front-matter must be a mapping');
+  }
+  return value as Record<string, unknown>;
+}
+
+type YamlLine = { indent: number; text: string };
+
+/**
+ * Keys whose values are kept as written, so `version: 1.10` is not read
+ * as the number 1.1
+ */
+const RAW_KEYS = new Set(['version']);
+
+/**
+ * Parse a mapping or sequence starting at `start` with the given indent
+ *
+ * @returns the parsed value and the index of the first unconsumed line
+ */
+function parseBlock(lines: YamlLine[], start: number, indent: number): [unknown, number] {
+  if (start >= lines.length) return [null, start];
+
+  if (lines[start].text.startsWith('- ') || lines[start].text === '-') {
+    const items: unknown[] = [];
+    let i = start;
+
+    while (i < lines.length && lines[i].indent === indent && lines[i].text.startsWith('-')) {
+      const rest = lines[i].text.slice(1).trim();
+      if (rest) {
+        items.push(parseScalar(rest));
+        i++;
+      } else {
+        const [value, next] = parseBlock(lines, i + 1, lines[i + 1]?.indent ?? indent);
+        items.push(value);
+        i = next;
+      }
+    }
+
+    return [items, i];
+  }
+
+  const map: Record<string, unknown> = {};
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent) {
+    const { text } = lines[i];
+    const colon = findKeySeparator(text);
+    if (colon === -1) {
+      throw new Error(`Expected "key: value", got "${text}"`);
+    }
+
+    const key = unquote(text.slice(0, colon).trim());
+    const rest = text.slice(colon + 1).trim();
+
+    if (rest) {
+      map[key] = RAW_KEYS.has(key) ? unquote(rest) : parseScalar(rest);
+      i++;
+    } else if (i + 1 < lines.length && lines[i + 1].indent > indent) {
+      const [value, next] = parseBlock(lines, i + 1, lines[i + 1].indent);
+      map[key] = value;
+      i = next;
+    } else if (i + 1 < lines.length && lines[i + 1].indent === indent && lines[i + 1].text.startsWith('-')) {
+      // Sequences may sit at the same indent as their key
+      const [value, next] = parseBlock(lines, i + 1, indent);
+      map[key] = value;
+      i = next;
+    } else {
+      map[key] = null;
+      i++;
+    }
+  }
+
+  return [map, i];
+}
+
+/**
+ * Parse a scalar or flow sequence
+ *
+ * Numbers are only converted when they read back unchanged, so
+ * identifier-like values such as `007`, `1.20` or long IDs stay strings.
+ */
+function parseScalar(text: string): unknown {
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const inner = text.slice(1, -1).trim();
+    return inner ? splitFlow(inner).map(item => parseScalar(item.trim())) : [];
+  }
+
+  if ((text.startsWith('"') && text.endsWith('"')) || (text.startsWith("'") && text.endsWith("'"))) {
+    return unquote(text);
+  }
+
+  if (/^(true|yes|on)$/i.test(text)) return true;
+  if (/^(false|no|off)$/i.test(text)) return false;
+  if (/^(null|~)$/i.test(text)) return null;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+    const number = Number(text);
+    return String(number) === text ? number : text;
+  }
+
+  return text;
+}
+
+/**
+ * Split a flow sequence body on top-level commas
+ */
+function splitFlow(text: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  items.push(current);
+  return items;
+}
+
+/**
+ * Find the colon separating a key from its value, outside quotes
+ */
+function findKeySeparator(text: string): number {
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ':' && (i + 1 === text.length || /\s/.test(text[i + 1]))) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Remove a trailing comment, respecting quotes
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Remove surrounding quotes and resolve simple escapes
+ */
+function unquote(text: string): string {
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    return text.slice(1, -1).replace(/\\(["\\nt])/g, (_, c: string) =>
+      c === 'n' ? '\n' : c === 't' ? '\t' : c
+    );
+  }
+  if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
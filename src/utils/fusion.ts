@@ -0,0 +1,64 @@
+import type { SearchResult } from './search.js';
+
+/**
+ * A ranked result list from one retriever
+ */
+export interface RankedList {
+  name: string;
+  results: SearchResult[];
+  weight?: number;
+}
+
+/**
+ * Fused result with the 1-based rank it had in each retriever
+ */
+export interface FusedResult extends SearchResult {
+  ranks: Record<string, number>;
+}
+
+/**
+ * Combine ranked lists with weighted reciprocal-rank fusion
+ *
+ * Each chunk scores `sum(weight / (k + rank))` over the lists it appears
+ * in. Scores are normalized so that a chunk ranked first by every
+ * retriever scores 1.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = 60): FusedResult[] {
+  const fused = new Map<string, FusedResult>();
+  const maxScore = lists.reduce((sum, list) => sum + (list.weight ?? 1) / (k + 1), 0);
+
+  for (const list of lists) {
+    const weight = list.weight ?? 1;
+
+    list.results.forEach((result, i) => {
+      const rank = i + 1;
+      const contribution = weight / (k + rank);
+      const existing = fused.get(result.chunk.id);
+
+      if (existing) {
+        existing.score += contribution;
+        existing.ranks[list.name] = rank;
+        if (!existing.highlights?.length && result.highlights?.length) {
+          existing.highlights = result.highlights;
+        }
+      } else {
+        fused.set(result.chunk.id, {
+          chunk: result.chunk,
+          score: contribution,
+          highlights: result.highlights,
+          ranks: { [list.name]: rank },
+        });
+      }
+    });
+  }
+
+  const results = Array.from(fused.values());
+  if (maxScore > 0) {
+    for (const result of results) {
+      result.score /= maxScore;
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score);
+  return results;
+}
@@ -0,0 +1,179 @@
+/**
+ * A vocabulary word close to a looked-up word
+ */
+export interface TermCandidate {
+  /** The word as first indexed, e.g. `registerSource`, or lowercase */
+  term: string;
+  distance: number;
+  /** Number of chunks containing the word */
+  frequency: number;
+}
+
+/**
+ * Vocabulary of indexed words with a trigram index for near-miss lookup
+ *
+ * Words are compared case-insensitively and counted per chunk, so
+ * `frequency` is a document frequency.
+ */
+export class TermDictionary {
+  private frequencies: Map<string, number> = new Map();
+  private spellings: Map<string, string> = new Map();
+  private grams: Map<string, Set<string>> = new Map();
+
+  /**
+   * Count an occurrence of a word
+   */
+  add(word: string): void {
+    const term = word.toLowerCase();
+    const count = this.frequencies.get(term) || 0;
+    this.frequencies.set(term, count + 1);
+
+    // Only capitals past the first letter (`registerSource`, `API`) are kept
+    if (count === 0) this.spellings.set(term, /\p{Lu}/u.test(word.slice(1)) ? word : term);
+    if (count > 0) return;
+
+    for (const gram of trigrams(term)) {
+      let terms = this.grams.get(gram);
+      if (!terms) {
+        terms = new Set();
+        this.grams.set(gram, terms);
+      }
+      terms.add(term);
+    }
+  }
+
+  /**
+   * Remove an occurrence of a word
+   */
+  remove(word: string): void {
+    const term = word.toLowerCase();
+    const count = this.frequencies.get(term);
+    if (!count) return;
+
+    if (count > 1) {
+      this.frequencies.set(term, count - 1);
+      return;
+    }
+
+    this.frequencies.delete(term);
+    this.spellings.delete(term);
+    for (const gram of trigrams(term)) {
+      const terms = this.grams.get(gram);
+      terms?.delete(term);
+      if (terms?.size === 0) this.grams.delete(gram);
+    }
+  }
+
+  /**
+   * Number of chunks containing a word
+   */
+  frequency(word: string): number {
+    return this.frequencies.get(word.toLowerCase()) || 0;
+  }
+
+  /**
+   * Find vocabulary words within an edit distance of a word
+   *
+   * Candidates share trigrams with the word and are verified with the
+   * optimal string alignment distance (transpositions count as one edit).
+   *
+   * @returns candidates ordered by distance, then by frequency
+   */
+  similar(word: string, maxDistance: number, limit: number = 5): TermCandidate[] {
+    const term = word.toLowerCase();
+    const grams = trigrams(term);
+    const shared = new Map<string, number>();
+
+    for (const gram of grams) {
+      for (const candidate of this.grams.get(gram) || []) {
+        shared.set(candidate, (shared.get(candidate) || 0) + 1);
+      }
+    }
+
+    // An edit changes at most three trigrams, a transposition four
+    const minShared = Math.max(1, grams.length - 4 * maxDistance);
+    const results: TermCandidate[] = [];
+
+    for (const [candidate, count] of shared) {
+      if (count < minShared || Math.abs(candidate.length - term.length) > maxDistance) continue;
+
+      const distance = editDistance(term, candidate, maxDistance);
+      if (distance <= maxDistance) {
+        results.push({ term: this.spellings.get(candidate)!, distance, frequency: this.frequency(candidate) });
+      }
+    }
+
+    return results
+      .sort((a, b) => a.distance - b.distance || b.frequency - a.frequency || a.term.localeCompare(b.term))
+      .slice(0, limit);
+  }
+
+  /**
+   * Number of distinct words
+   */
+  get size(): number {
+    return this.frequencies.size;
+  }
+
+  clear(): void {
+    this.frequencies.clear();
+    this.spellings.clear();
+    this.grams.clear();
+  }
+}
+
+/**
+ * Edit distance allowed for a word of the given length: none up to two
+ * characters, one up to five, two beyond
+ */
+export function autoMaxEdits(length: number): number {
+  if (length < 3) return 0;
+  return length < 6 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance between two strings
+ *
+ * Stops early once the distance exceeds `max`, returning `max + 1`.
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * Padded trigrams of a word
+ */
+function trigrams(term: string): string[] {
+  const padded = `$$${term}$`;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return Array.from(grams);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { globToRegExp, IgnoreRules } from './glob.js';
+
+describe('globToRegExp', () => {
+  it('matches patterns without a slash at any depth', () => {
+    const regex = globToRegExp('*.md');
+
+    expect(regex.test('README.md')).toBe(true);
+    expect(regex.test('docs/guides/install.md')).toBe(true);
+    expect(regex.test('README.mdx')).toBe(false);
+  });
+
+  it('anchors patterns with a leading slash to the root', () => {
+    const regex = globToRegExp('/build');
+
+    expect(regex.test('build')).toBe(true);
+    expect(regex.test('docs/build')).toBe(false);
+  });
+
+  it('keeps * within a segment and lets ** cross segments', () => {
+    expect(globToRegExp('docs/*.md').test('docs/a.md')).toBe(true);
+    expect(globToRegExp('docs/*.md').test('docs/sub/a.md')).toBe(false);
+    expect(globToRegExp('docs/**/*.md').test('docs/a.md')).toBe(true);
+    expect(globToRegExp('docs/**/*.md').test('docs/sub/deep/a.md')).toBe(true);
+  });
+
+  it('supports ?, character classes and alternatives', () => {
+    expect(globToRegExp('v?.txt').test('v1.txt')).toBe(true);
+    expect(globToRegExp('[!a]*.ts').test('b.ts')).toBe(true);
+    expect(globToRegExp('[!a]*.ts').test('a.ts')).toBe(false);
+    expect(globToRegExp('*.{ts,js}').test('src/index.js')).toBe(true);
+    expect(globToRegExp('*.{ts,js}').test('src/index.py')).toBe(false);
+  });
+
+  it('treats regular expression characters literally', () => {
+    expect(globToRegExp('c++.txt').test('c++.txt')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('IgnoreRules', () => {
+  it('only ignores root-anchored patterns at the root', () => {
+    const rules = new IgnoreRules('/build\n');
+
+    expect(rules.test('build', true)).toBe(true);
+    expect(rules.test('docs/build', true)).toBeUndefined();
+  });
+
+  it('ignores unanchored patterns at any depth', () => {
+    const rules = new IgnoreRules('node_modules\n*.log\n');
+
+    expect(rules.test('node_modules', true)).toBe(true);
+    expect(rules.test('packages/a/node_modules', true)).toBe(true);
+    expect(rules.test('logs/debug.log', false)).toBe(true);
+  });
+
+  it('anchors patterns with an inner slash', () => {
+    const rules = new IgnoreRules('docs/drafts\n');
+
+    expect(rules.test('docs/drafts', true)).toBe(true);
+    expect(rules.test('site/docs/drafts', true)).toBeUndefined();
+  });
+
+  it('applies directory-only rules to directories', () => {
+    const rules = new IgnoreRules('dist/\n');
+
+    expect(rules.test('dist', true)).toBe(true);
+    expect(rules.test('dist', false)).toBeUndefined();
+  });
+
+  it('lets later negations override earlier rules', () => {
+    const rules = new IgnoreRules('*.md\n!README.md\n');
+
+    expect(rules.test('guide.md', false)).toBe(true);
+    expect(rules.test('README.md', false)).toBe(false);
+  });
+
+  it('skips comments and blank lines and honors escapes', () => {
+    const rules = new IgnoreRules('# comment\n\n\\#notes.md\n');
+
+    expect(rules.size).toBe(1);
+    expect(rules.test('#notes.md', false)).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Convert a glob pattern to a regular expression over POSIX relative paths
+ *
+ * Supports `*` (within a segment), `**` (across segments), `?`, character
+ * classes `[abc]`/`[!abc]` and alternatives `{a,b}`. Patterns without a
+ * slash match the file name at any depth, so `*.md` behaves like `**\/*.md`;
+ * a leading slash anchors the pattern to the root, so `/build` matches
+ * `build` but not `docs/build`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const anchored = glob.startsWith('/');
+  let pattern = anchored ? glob.slice(1) : glob;
+  if (!anchored && !pattern.includes('/')) {
+    pattern = `**/${pattern}`;
+  }
+
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+        const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+
+        if (atSegmentStart && atSegmentEnd) {
+          if (pattern[i + 2] === '/') {
+            // `**/` matches zero or more directories
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+          continue;
+        }
+
+        i += 1;
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      if (body.startsWith('!')) body = '^' + body.slice(1);
+      source += `[${body}]`;
+      i = end;
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Test a relative path against any of several glob patterns
+ */
+export function matchesAnyGlob(relativePath: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => pattern.test(relativePath));
+}
+
+/**
+ * A single parsed ignore rule
+ */
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Rules from one `.gitignore`-style file
+ *
+ * Follows gitignore semantics: later rules override earlier ones, `!`
+ * re-includes, a trailing `/` matches directories only, and patterns
+ * containing a slash are anchored to the directory of the ignore file.
+ */
+export class IgnoreRules {
+  private rules: IgnoreRule[] = [];
+
+  constructor(content: string) {
+    for (const rawLine of content.split(/\r?\n/)) {
+      const rule = this.parseLine(rawLine);
+      if (rule) this.rules.push(rule);
+    }
+  }
+
+  /**
+   * Decide whether a path relative to the ignore file's directory is ignored
+   *
+   * @returns true/false if a rule matched, undefined if none did
+   */
+  test(relativePath: string, isDirectory: boolean): boolean | undefined {
+    let result: boolean | undefined;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(relativePath)) {
+        result = !rule.negated;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Number of parsed rules
+   */
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * Parse one line of an ignore file
+   */
+  private parseLine(rawLine: string): IgnoreRule | null {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) return null;
+
+    let negated = false;
+    if (line.startsWith('!')) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith('/')) {
+      directoryOnly = true;
+      line = line.slice(0, -1);
+    }
+    if (!line) return null;
+
+    // A slash anywhere but the end anchors the pattern to this directory;
+    // the leading slash marks it anchored for globToRegExp
+    const anchored = line.includes('/');
+    const glob = anchored ? `/${line.replace(/^\//, '')}` : `**/${line}`;
+
+    return { regex: globToRegExp(glob), negated, directoryOnly };
+  }
+}
+
+/**
+ * Escape a character for use in a regular expression
+ */
+function escapeRegExp(char: string): string {
+  return /[.+^${}()|[\]\\*?]/.test(char) ? `\\${char}` : char;
+}
@@ -0,0 +1,24 @@
+import { createHash } from 'crypto';
+import type { Document } from '../types/index.js';
+
+/**
+ * Metadata keys that change without the document changing
+ */
+const VOLATILE_METADATA_KEYS = new Set(['createdAt', 'updatedAt']);
+
+/**
+ * Compute a stable hash of everything that affects how a document is indexed
+ *
+ * Covers type, title, content and metadata, excluding timestamps. Keys
+ * are sorted so the hash does not depend on property order.
+ */
+export function contentHash(document: Document): string {
+  const metadata = Object.keys(document.metadata)
+    .filter(key => !VOLATILE_METADATA_KEYS.has(key))
+    .sort()
+    .map(key => [key, document.metadata[key]]);
+
+  return createHash('sha256')
+    .update(JSON.stringify([document.type, document.title ?? null, document.content, metadata]))
+    .digest('hex');
+}
@@ -0,0 +1,129 @@
+/**
+ * A block of readable text extracted from HTML
+ */
+export interface HtmlBlock {
+  /** Whitespace-normalized text (preformatted text is kept as is) */
+  text: string;
+  /** Source range of the markup the text came from */
+  start: number;
+  end: number;
+  /** Path of headings the block sits under, including its own if it is one */
+  headings: string[];
+  /** Heading level (1-6) when the block is a heading */
+  level?: number;
+}
+
+/**
+ * Elements whose content is never readable text
+ */
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg']);
+
+/**
+ * Elements that start or end a block of text
+ */
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'br', 'caption', 'dd', 'details', 'dialog',
+  'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4',
+  'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table',
+  'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+};
+
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+/**
+ * Extract readable text blocks from HTML
+ *
+ * Markup, comments, scripts and styles are dropped and entities decoded.
+ * Inline elements such as links and emphasis keep their text; block
+ * elements (paragraphs, list items, table cells, headings...) each start
+ * a new block. Every block records the heading path above it.
+ */
+export function extractHtmlBlocks(html: string): HtmlBlock[] {
+  const blocks: HtmlBlock[] = [];
+  const headings: string[] = [];
+  let text = '';
+  let start = -1;
+  let end = -1;
+  let heading: number | undefined;
+  let preDepth = 0;
+
+  const appendText = (raw: string, offset: number) => {
+    if (!raw) return;
+    if (start === -1 && raw.trim()) start = offset + (raw.length - raw.trimStart().length);
+    if (raw.trim()) end = offset + raw.trimEnd().length;
+    text += raw;
+  };
+
+  const flush = () => {
+    const decoded = decodeEntities(text);
+    const normalized = preDepth > 0 ? decoded.replace(/^\n+|\s+$/g, '') : decoded.replace(/\s+/g, ' ').trim();
+
+    if (normalized) {
+      if (heading) {
+        headings.length = Math.min(headings.length, heading - 1);
+        headings.push(normalized);
+      }
+      blocks.push({ text: normalized, start, end, headings: [...headings], ...(heading ? { level: heading } : {}) });
+    }
+
+    text = '';
+    start = -1;
+    end = -1;
+  };
+
+  const lower = html.toLowerCase();
+  let cursor = 0;
+  TOKEN.lastIndex = 0;
+
+  for (let match = TOKEN.exec(html); match; match = TOKEN.exec(html)) {
+    appendText(html.slice(cursor, match.index), cursor);
+    cursor = match.index + match[0].length;
+
+    const [, closing, rawName, attributes] = match;
+    if (!rawName) continue;
+
+    const name = rawName.toLowerCase();
+    const selfClosing = attributes.trimEnd().endsWith('/');
+
+    if (!closing && SKIPPED_ELEMENTS.has(name) && !selfClosing) {
+      // Jump past the element; its content is not markup-aware text
+      const close = lower.indexOf(`</${name}`, cursor);
+      const closeEnd = close === -1 ? -1 : html.indexOf('>', close);
+      cursor = closeEnd === -1 ? html.length : closeEnd + 1;
+      TOKEN.lastIndex = cursor;
+      continue;
+    }
+
+    if (!BLOCK_ELEMENTS.has(name)) continue;
+
+    flush();
+
+    const level = /^h[1-6]$/.test(name) ? Number(name[1]) : undefined;
+    if (level) heading = closing ? undefined : level;
+    if (name === 'pre' && !selfClosing) preDepth = Math.max(0, preDepth + (closing ? -1 : 1));
+  }
+
+  appendText(html.slice(cursor), cursor);
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Decode named and numeric character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * Error raised when an API request fails
+ *
+ * `status` is unset when no response arrived (network error, timeout).
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly status?: number,
+    /** Whether repeating the request may succeed */
+    public readonly retryable: boolean = false,
+    /** Delay the server asked for with `Retry-After` */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+/**
+ * Options for retrying failed requests
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Base delay of the first retry (default: 250) */
+  minDelayMs?: number;
+  /** Longest delay between attempts (default: 10000) */
+  maxDelayMs?: number;
+  /** Growth of the delay per retry (default: 2) */
+  factor?: number;
+}
+
+/**
+ * Statuses worth retrying: timeouts, rate limiting and transient server
+ * errors
+ */
+export const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Delay before a retry, with exponential backoff and full jitter
+ *
+ * A random delay between 0 and `minDelayMs * factor^attempt`, capped at
+ * `maxDelayMs`, so clients failing together do not retry in lockstep.
+ *
+ * @param attempt retry number, starting at 0
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = {}, random: () => number = Math.random): number {
+  const { minDelayMs = 250, maxDelayMs = 10_000, factor = 2 } = options;
+  const ceiling = Math.min(maxDelayMs, minDelayMs * factor ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or an HTTP date) into a delay
+ * in milliseconds
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const value = header.trim();
+  if (/^\d+$/.test(value)) return Number.parseInt(value, 10) * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Parse a `Link` header into URLs by relation, e.g.
+ * `{ next: 'https://api.example.com/items?page=2', last: '...' }`
+ */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const match of header.matchAll(/<([^>]*)>((?:\s*;\s*[^,;]+)*)/g)) {
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2]);
+    if (!rel) continue;
+    for (const name of rel[1].trim().split(/\s+/)) {
+      links[name.toLowerCase()] = match[1];
+    }
+  }
+  return links;
+}
+
+/**
+ * Options for a token bucket
+ */
+export interface TokenBucketOptions {
+  /** Tokens added per second */
+  refillPerSecond: number;
+  /** Most tokens held, i.e. the largest burst (default: `refillPerSecond`, at least 1) */
+  capacity?: number;
+  /** Clock in milliseconds (default: `Date.now`) */
+  now?: () => number;
+}
+
+/**
+ * Token bucket rate limiter
+ *
+ * Starts full; every request takes a token, and callers wait for the
+ * bucket to refill once it is empty. Waiters are served in order.
+ */
+export class TokenBucket {
+  readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly now: () => number;
+  private tokens: number;
+  private updatedAt: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: TokenBucketOptions) {
+    if (!(options.refillPerSecond > 0)) {
+      throw new RangeError('refillPerSecond must be positive');
+    }
+    this.capacity = options.capacity ?? Math.max(1, options.refillPerSecond);
+    this.refillPerMs = options.refillPerSecond / 1000;
+    this.now = options.now ?? Date.now;
+    this.tokens = this.capacity;
+    this.updatedAt = this.now();
+  }
+
+  /**
+   * Take a token, waiting until one is available
+   */
+  take(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep((1 - this.tokens) / this.refillPerMs, signal);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Take a token if one is available right away
+   */
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early when the signal
+ * aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, Math.max(0, ms));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * A JSON value with its location in the source text
+ */
+export interface JsonNode {
+  kind: 'object' | 'array' | 'scalar';
+  start: number;
+  end: number;
+  /** Members of objects and items of arrays, in source order */
+  children: JsonMember[];
+}
+
+/**
+ * An object member or array item
+ */
+export interface JsonMember {
+  /** Property name, or array index */
+  key: string | number;
+  /** Start of the member including its key (equals `value.start` for array items) */
+  start: number;
+  value: JsonNode;
+}
+
+/**
+ * Error thrown for malformed JSON
+ */
+export class JsonSyntaxError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(`${message} at offset ${offset}`);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+/**
+ * Parse JSON into a tree of source ranges
+ *
+ * Unlike `JSON.parse`, values are not materialized: each node records
+ * where it sits in the text, so chunks can be cut on value boundaries.
+ *
+ * @throws JsonSyntaxError if the text is not valid JSON
+ */
+export function parseJsonRanges(text: string): JsonNode {
+  const parser = new JsonRangeParser(text);
+  const root = parser.parseValue();
+  parser.expectEnd();
+  return root;
+}
+
+/**
+ * Build a JSON pointer (RFC 6901) from a parent pointer and a key
+ */
+export function childPointer(pointer: string, key: string | number): string {
+  return `${pointer}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+class JsonRangeParser {
+  private pos = 0;
+
+  constructor(private text: string) {
+    // A byte order mark is not part of the value
+    if (text.charCodeAt(0) === 0xfeff) this.pos = 1;
+  }
+
+  parseValue(): JsonNode {
+    this.skipWhitespace();
+    const start = this.pos;
+    const char = this.text[this.pos];
+
+    if (char === '{') return this.parseObject(start);
+    if (char === '[') return this.parseArray(start);
+    if (char === '"') {
+      this.skipString();
+    } else if (char === '-' || (char >= '0' && char <= '9')) {
+      const match = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?/.exec(this.text.slice(this.pos));
+      if (!match) throw new JsonSyntaxError('Invalid number', this.pos);
+      this.pos += match[0].length;
+    } else {
+      const literal = ['true', 'false', 'null'].find(word => this.text.startsWith(word, this.pos));
+      if (!literal) throw new JsonSyntaxError('Unexpected token', this.pos);
+      this.pos += literal.length;
+    }
+
+    return { kind: 'scalar', start, end: this.pos, children: [] };
+  }
+
+  expectEnd(): void {
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      throw new JsonSyntaxError('Unexpected data after value', this.pos);
+    }
+  }
+
+  private parseObject(start: number): JsonNode {
+    const children: JsonMember[] = [];
+    this.pos++;
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return { kind: 'object', start, end: this.pos, children };
+    }
+
+    while (true) {
+      this.skipWhitespace();
+      const memberStart = this.pos;
+      if (this.text[this.pos] !== '"') throw new JsonSyntaxError('Expected property name', this.pos);
+      this.skipString();
+      const key = JSON.parse(this.text.slice(memberStart, this.pos)) as string;
+
+      this.skipWhitespace();
+      if (this.text[this.pos] !== ':') throw new JsonSyntaxError('Expected ":"', this.pos);
+      this.pos++;
+
+      children.push({ key, start: memberStart, value: this.parseValue() });
+
+      if (this.consumeSeparator('}')) break;
+    }
+
+    return { kind: 'object', start, end: this.pos, children };
+  }
+
+  private parseArray(start: number): JsonNode {
+    const children: JsonMember[] = [];
+    this.pos++;
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return { kind: 'array', start, end: this.pos, children };
+    }
+
+    while (true) {
+      const value = this.parseValue();
+      children.push({ key: children.length, start: value.start, value });
+
+      if (this.consumeSeparator(']')) break;
+    }
+
+    return { kind: 'array', start, end: this.pos, children };
+  }
+
+  /**
+   * Consume a comma or the closing bracket
+   *
+   * @returns true when the container was closed
+   */
+  private consumeSeparator(close: string): boolean {
+    this.skipWhitespace();
+    const char = this.text[this.pos];
+    this.pos++;
+
+    if (char === close) return true;
+    if (char === ',') return false;
+    throw new JsonSyntaxError(`Expected "," or "${close}"`, this.pos - 1);
+  }
+
+  private skipString(): void {
+    let i = this.pos + 1;
+
+    while (i < this.text.length) {
+      const char = this.text[i];
+      if (char === '\\') {
+        i += 2;
+      } else if (char === '"') {
+        this.pos = i + 1;
+        return;
+      } else if (char === '\n') {
+        break;
+      } else {
+        i++;
+      }
+    }
+
+    throw new JsonSyntaxError('Unterminated string', this.pos);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /[ \t\r\n]/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+}
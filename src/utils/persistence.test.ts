@@ -0,0 +1,64 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SnapshotStore } from './persistence.js';
+import { SearchIndex } from './search.js';
+
+function snapshot(documentCount: number) {
+  return {
+    store: {
+      documents: Array.from({ length: documentCount }, (_, i) => ({
+        id: `doc-${i}`,
+        type: 'text' as const,
+        content: 'content',
+        metadata: { source: 'docs' },
+        storedAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        contentHash: 'hash',
+      })),
+      tombstones: [],
+    },
+    index: new SearchIndex().snapshot(),
+  };
+}
+
+describe('SnapshotStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'snapshots-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips a snapshot', async () => {
+    const store = new SnapshotStore(directory);
+    await store.save(snapshot(2));
+
+    const loaded = await store.load();
+    expect(loaded?.store.documents.map(d => d.id)).toEqual(['doc-0', 'doc-1']);
+  });
+
+  it('serializes concurrent saves and keeps the newest snapshot', async () => {
+    const store = new SnapshotStore(directory);
+
+    await Promise.all([1, 2, 3, 4, 5].map(count => store.save(snapshot(count))));
+
+    const loaded = await store.load();
+    expect(loaded?.store.documents).toHaveLength(5);
+    expect((await readdir(directory)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('removes the temporary file when the rename fails', async () => {
+    const store = new SnapshotStore(directory);
+    // A non-empty directory cannot be replaced by a file
+    await mkdir(store.filePath);
+    await writeFile(path.join(store.filePath, 'keep'), '');
+
+    await expect(store.save(snapshot(1))).rejects.toThrow();
+    expect((await readdir(directory)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { randomBytes } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { DocumentStoreSnapshot } from './store.js';
+import type { SearchIndexSnapshot } from './search.js';
+import type { VectorIndexSnapshot } from './vector.js';
+
+/**
+ * Current snapshot format version
+ *
+ * Bump whenever the shape of any snapshot part changes; snapshots with
+ * a different version are discarded and rebuilt from the sources.
+ */
+export const SNAPSHOT_VERSION = 6;
+
+const SNAPSHOT_FILE = 'knowledge-snapshot.json';
+
+/**
+ * Persisted knowledge base state
+ */
+export interface KnowledgeSnapshot {
+  version: number;
+  savedAt: string;
+  store: DocumentStoreSnapshot;
+  index: SearchIndexSnapshot;
+  vectors?: {
+    embedder: string;
+    index: VectorIndexSnapshot;
+  };
+}
+
+/**
+ * Error raised when a snapshot exists but cannot be used
+ */
+export class SnapshotError extends Error {
+  constructor(message: string, public readonly filePath: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+/**
+ * On-disk snapshot storage for the document store and indexes
+ *
+ * Writes are atomic: the snapshot is written to a temporary file in the
+ * same directory, flushed to disk and renamed over the previous one, so
+ * a crash mid-write leaves the last complete snapshot intact.
+ *
+ * Writes happen one at a time. Saves requested while one is running are
+ * coalesced: only the newest snapshot is written next.
+ */
+export class SnapshotStore {
+  private directory: string;
+  private writing: Promise<void> = Promise.resolve();
+  private queued?: { snapshot: Omit<KnowledgeSnapshot, 'version' | 'savedAt'>; done: Promise<void> };
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Path of the snapshot file
+   */
+  get filePath(): string {
+    return path.join(this.directory, SNAPSHOT_FILE);
+  }
+
+  /**
+   * Load the snapshot, or null if none has been saved yet
+   *
+   * @throws SnapshotError if the snapshot is corrupt or from another version
+   */
+  async load(): Promise<KnowledgeSnapshot | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    let snapshot: KnowledgeSnapshot;
+    try {
+      snapshot = JSON.parse(raw) as KnowledgeSnapshot;
+    } catch {
+      throw new SnapshotError('Snapshot is not valid JSON', this.filePath);
+    }
+
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new SnapshotError(
+        `Snapshot version ${snapshot.version} does not match ${SNAPSHOT_VERSION}`,
+        this.filePath
+      );
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Atomically write a snapshot once earlier writes are done
+   *
+   * @returns a promise settling when this snapshot, or a newer one that
+   * replaced it in the queue, has been written
+   */
+  save(snapshot: Omit<KnowledgeSnapshot, 'version' | 'savedAt'>): Promise<void> {
+    if (this.queued) {
+      this.queued.snapshot = snapshot;
+      return this.queued.done;
+    }
+
+    const queued = { snapshot, done: Promise.resolve() };
+    queued.done = this.writing
+      .catch(() => undefined)
+      .then(() => {
+        this.queued = undefined;
+        return this.write(queued.snapshot);
+      });
+    this.queued = queued;
+    this.writing = queued.done;
+    return queued.done;
+  }
+
+  /**
+   * Delete the snapshot
+   */
+  async clear(): Promise<void> {
+    await this.writing.catch(() => undefined);
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  /**
+   * Write a snapshot to a temporary file and rename it into place
+   */
+  private async write(snapshot: Omit<KnowledgeSnapshot, 'version' | 'savedAt'>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const data = JSON.stringify({
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      ...snapshot,
+    } satisfies KnowledgeSnapshot);
+
+    const tempPath = `${this.filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+
+    try {
+      try {
+        await handle.writeFile(data, 'utf-8');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      // Failed writes must not leave temporary files behind
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    await this.syncDirectory();
+  }
+
+  /**
+   * Flush the directory entry so the rename survives a crash
+   */
+  private async syncDirectory(): Promise<void> {
+    try {
+      const dir = await fs.open(this.directory, 'r');
+      try {
+        await dir.sync();
+      } finally {
+        await dir.close();
+      }
+    } catch {
+      // Not supported on every platform (e.g. Windows); the rename is still atomic
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuery, queryText, QuerySyntaxError, type QueryNode } from './query.js';
+
+/**
+ * Compact notation of a parsed query: `+` must, `-` must not, plain
+ * should; groups in parentheses
+ */
+function show(node: QueryNode): string {
+  if (node.kind === 'group') {
+    const clauses = node.clauses.map(({ occur, node: child }) =>
+      `${occur === 'must' ? '+' : occur === 'mustNot' ? '-' : ''}${show(child)}`);
+    return `(${clauses.join(' ')})`;
+  }
+  const text = node.kind === 'phrase' ? `"${node.text}"` : node.text;
+  return node.field ? `${node.field}:${text}` : text;
+}
+
+function syntaxError(query: string): QuerySyntaxError {
+  try {
+    parseQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected '${query}' to be rejected`);
+}
+
+describe('parseQuery precedence', () => {
+  it('binds AND tighter than OR', () => {
+    expect(show(parseQuery('a AND b OR c'))).toBe('((+a +b) (c))');
+    expect(show(parseQuery('a OR b AND c'))).toBe('((a) (+b +c))');
+  });
+
+  it('keeps juxtaposed terms optional within an alternative', () => {
+    expect(show(parseQuery('a OR b c'))).toBe('((a) (b c))');
+    expect(show(parseQuery('a b AND c'))).toBe('(a +b +c)');
+  });
+
+  it('applies prefixes and NOT to single clauses', () => {
+    expect(show(parseQuery('+a -b NOT c d'))).toBe('(+a -b -c d)');
+    expect(show(parseQuery('-(a OR b) c'))).toBe('(-((a) (b)) c)');
+  });
+
+  it('scopes groups to a field unless their terms have their own', () => {
+    expect(show(parseQuery('title:(deploy tag:ops) "rate limit"'))).toBe('((title:deploy tag:ops) "rate limit")');
+  });
+
+  it('treats lowercase operators and unknown prefixes as words', () => {
+    expect(show(parseQuery('cats and dogs'))).toBe('(cats and dogs)');
+    expect(show(parseQuery('http://example.com'))).toBe('(http://example.com)');
+  });
+});
+
+describe('parseQuery literals', () => {
+  it('keeps parentheses inside a word and symbols as text', () => {
+    expect(show(parseQuery('f(x)'))).toBe('(f(x))');
+    expect(show(parseQuery('(f(x) OR g(y))'))).toBe('(((f(x)) (g(y))))');
+    expect(show(parseQuery('C++ -C#'))).toBe('(C++ -C#)');
+  });
+
+  it('keeps operators inside phrases', () => {
+    expect(show(parseQuery('"a OR (b"'))).toBe('("a OR (b")');
+  });
+});
+
+describe('parseQuery errors', () => {
+  it('rejects unterminated phrases', () => {
+    expect(syntaxError('retry "rate limit').position).toBe(6);
+  });
+
+  it('rejects unmatched and empty parentheses', () => {
+    expect(syntaxError('(deploy OR release').message).toBe('Unmatched "(" (at position 0)');
+    expect(syntaxError('deploy) release').message).toBe('Unmatched ")" (at position 6)');
+    expect(syntaxError('deploy ()').message).toBe('Empty group (at position 7)');
+  });
+
+  it('rejects dangling operators', () => {
+    expect(syntaxError('AND deploy').message).toBe('AND must follow a term (at position 0)');
+    expect(syntaxError('deploy AND').message).toBe('AND must be followed by a term (at position 7)');
+    expect(syntaxError('OR deploy').message).toBe('OR must follow a term (at position 0)');
+    expect(syntaxError('deploy OR').message).toBe('OR must be followed by a term (at position 7)');
+    expect(syntaxError('deploy AND OR release').message).toBe('AND must be followed by a term (at position 7)');
+    expect(syntaxError('deploy NOT').message).toBe('NOT must be followed by a term (at position 10)');
+  });
+
+  it('rejects queries with only excluded terms', () => {
+    expect(syntaxError('-draft').message).toBe('Query must contain a term that is not excluded (at position 0)');
+    expect(syntaxError('NOT draft -(staging)').name).toBe('QuerySyntaxError');
+  });
+});
+
+describe('queryText', () => {
+  it('leaves out excluded and metadata-scoped terms', () => {
+    expect(queryText(parseQuery('retry "rate limit" -legacy tag:http title:backoff'))).toBe('retry rate limit backoff');
+  });
+});
@@ -0,0 +1,301 @@
+import type { SearchFilters } from '../types/index.js';
+
+/**
+ * Fields a query term can be scoped to
+ *
+ * `title` and `content` restrict text matching to that chunk field; the
+ * others match chunk metadata exactly (`path` by prefix).
+ */
+export type QueryField = 'title' | 'content' | 'tag' | 'source' | 'type' | 'language' | 'path';
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  title: 'title',
+  content: 'content',
+  tag: 'tag',
+  tags: 'tag',
+  source: 'source',
+  type: 'type',
+  language: 'language',
+  lang: 'language',
+  path: 'path',
+};
+
+/**
+ * How a clause takes part in matching
+ *
+ * A group matches when all `must` clauses match, no `mustNot` clause
+ * matches and, if it has no `must` clauses, at least one `should` clause
+ * matches.
+ */
+export type QueryOccur = 'must' | 'should' | 'mustNot';
+
+/**
+ * Parsed query
+ */
+export type QueryNode =
+  | { kind: 'term'; field?: QueryField; text: string }
+  | { kind: 'phrase'; field?: QueryField; text: string }
+  | { kind: 'group'; clauses: QueryClause[] };
+
+/**
+ * A query node with its occurrence
+ */
+export interface QueryClause {
+  occur: QueryOccur;
+  node: QueryNode;
+}
+
+/**
+ * Error thrown for malformed queries
+ */
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+/**
+ * Parse a search query
+ *
+ * Syntax:
+ * - `retry backoff` - either term; chunks matching more terms score higher
+ * - `"exact phrase"` - the words in this order
+ * - `+term` / `-term` - the term is required / excluded (also `NOT term`)
+ * - `a AND b` - both required; `a OR b` - alternatives, binding looser
+ *   than AND, so `a AND b OR c` means `(a AND b) OR c`
+ * - `( ... )` - grouping; parentheses inside a word, as in `f(x)`, are
+ *   part of it
+ * - `title:deploy`, `content:"rate limit"`, `tag:security`, `source:`,
+ *   `type:`, `language:` (`lang:`), `path:` (prefix) - field scoping;
+ *   unknown prefixes such as `http:` are ordinary text
+ *
+ * Lowercase `and`, `or` and `not` are ordinary words.
+ *
+ * @throws QuerySyntaxError on unbalanced quotes or parentheses, dangling
+ * operators, empty groups, or a query with only excluded terms
+ */
+export function parseQuery(query: string): QueryNode {
+  const parser = new QueryParser(query);
+  const node = parser.parse();
+
+  if (!hasPositiveTerm(node)) {
+    throw new QuerySyntaxError('Query must contain a term that is not excluded', 0);
+  }
+  return node;
+}
+
+/**
+ * Convert a metadata-scoped term into search filters
+ *
+ * @returns undefined for text terms
+ */
+export function fieldFilter(field: QueryField | undefined, value: string): SearchFilters | undefined {
+  switch (field) {
+    case 'tag':
+      return { tags: [value] };
+    case 'source':
+      return { source: value };
+    case 'type':
+      return { type: value as SearchFilters['type'] };
+    case 'language':
+      return { language: value };
+    case 'path':
+      return { pathPrefix: value };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Plain text of the terms a query looks for, for retrievers without
+ * query syntax (e.g. embeddings)
+ *
+ * Excluded and metadata-scoped terms are left out.
+ */
+export function queryText(node: QueryNode): string {
+  if (node.kind === 'group') {
+    return node.clauses
+      .filter(clause => clause.occur !== 'mustNot')
+      .map(clause => queryText(clause.node))
+      .filter(Boolean)
+      .join(' ');
+  }
+  return fieldFilter(node.field, node.text) ? '' : node.text;
+}
+
+/**
+ * Check whether a query has a term that is not excluded
+ */
+function hasPositiveTerm(node: QueryNode): boolean {
+  if (node.kind !== 'group') return true;
+  return node.clauses.some(clause => clause.occur !== 'mustNot' && hasPositiveTerm(clause.node));
+}
+
+class QueryParser {
+  private pos = 0;
+
+  constructor(private query: string) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    this.skipWhitespace();
+
+    if (this.pos < this.query.length) {
+      // Only a closing parenthesis stops the top-level expression early
+      throw new QuerySyntaxError('Unmatched ")"', this.pos);
+    }
+    return node;
+  }
+
+  /**
+   * Alternatives separated by OR
+   */
+  private parseOr(): QueryNode {
+    const alternatives = [this.parseAnd()];
+
+    while (this.peekOperator() === 'OR') {
+      const operatorPos = this.pos;
+      this.pos += 2;
+      if (this.atGroupEnd()) {
+        throw new QuerySyntaxError('OR must be followed by a term', operatorPos);
+      }
+      alternatives.push(this.parseAnd());
+    }
+
+    if (alternatives.length === 1) return alternatives[0];
+    return {
+      kind: 'group',
+      clauses: alternatives.map(node => ({ occur: 'should' as const, node })),
+    };
+  }
+
+  /**
+   * Clauses joined by whitespace or AND
+   */
+  private parseAnd(): QueryNode {
+    const clauses: QueryClause[] = [];
+
+    while (!this.atGroupEnd()) {
+      const operator = this.peekOperator();
+      const operatorPos = this.pos;
+
+      if (operator === 'OR') {
+        if (clauses.length === 0) throw new QuerySyntaxError('OR must follow a term', operatorPos);
+        break;
+      }
+
+      if (operator === 'AND') {
+        if (clauses.length === 0) throw new QuerySyntaxError('AND must follow a term', operatorPos);
+        this.pos += 3;
+        if (this.atGroupEnd() || this.peekOperator() === 'OR') {
+          throw new QuerySyntaxError('AND must be followed by a term', operatorPos);
+        }
+
+        const previous = clauses[clauses.length - 1];
+        if (previous.occur === 'should') previous.occur = 'must';
+
+        const clause = this.parseClause();
+        if (clause.occur === 'should') clause.occur = 'must';
+        clauses.push(clause);
+        continue;
+      }
+
+      clauses.push(this.parseClause());
+    }
+
+    if (clauses.length === 0) {
+      throw new QuerySyntaxError('Expected a term', this.pos);
+    }
+    return { kind: 'group', clauses };
+  }
+
+  /**
+   * A term, phrase or group with optional operator and field prefixes
+   */
+  private parseClause(): QueryClause {
+    this.skipWhitespace();
+    let occur: QueryOccur = 'should';
+
+    if (this.peekOperator() === 'NOT') {
+      this.pos += 3;
+      this.skipWhitespace();
+      if (this.atGroupEnd()) throw new QuerySyntaxError('NOT must be followed by a term', this.pos);
+      occur = 'mustNot';
+    } else if ((this.query[this.pos] === '+' || this.query[this.pos] === '-') && /\S/.test(this.query[this.pos + 1] ?? ' ')) {
+      occur = this.query[this.pos] === '+' ? 'must' : 'mustNot';
+      this.pos++;
+    }
+
+    let field: QueryField | undefined;
+    const prefix = /^([a-zA-Z]+):(?=[^\s)])/.exec(this.query.slice(this.pos));
+    if (prefix && FIELD_ALIASES[prefix[1].toLowerCase()]) {
+      field = FIELD_ALIASES[prefix[1].toLowerCase()];
+      this.pos += prefix[0].length;
+    }
+
+    return { occur, node: this.parsePrimary(field) };
+  }
+
+  private parsePrimary(field?: QueryField): QueryNode {
+    const start = this.pos;
+    const char = this.query[this.pos];
+
+    if (char === '"') {
+      const end = this.query.indexOf('"', start + 1);
+      if (end === -1) throw new QuerySyntaxError('Unterminated phrase', start);
+      this.pos = end + 1;
+      return { kind: 'phrase', field, text: this.query.slice(start + 1, end) };
+    }
+
+    if (char === '(') {
+      this.pos++;
+      if (this.atGroupEnd()) throw new QuerySyntaxError('Empty group', start);
+      const node = this.parseOr();
+      this.skipWhitespace();
+      if (this.query[this.pos] !== ')') throw new QuerySyntaxError('Unmatched "("', start);
+      this.pos++;
+      return field ? withField(node, field) : node;
+    }
+
+    // Parentheses opened inside a word are part of it, as in `f(x)`
+    let depth = 0;
+    while (this.pos < this.query.length && !/[\s"]/.test(this.query[this.pos])) {
+      const next = this.query[this.pos];
+      if (next === '(') depth++;
+      else if (next === ')' && depth-- === 0) break;
+      this.pos++;
+    }
+    return { kind: 'term', field, text: this.query.slice(start, this.pos) };
+  }
+
+  /**
+   * Uppercase operator keyword at the current position
+   */
+  private peekOperator(): 'AND' | 'OR' | 'NOT' | undefined {
+    this.skipWhitespace();
+    const match = /^(AND|OR|NOT)(?=[\s()"]|$)/.exec(this.query.slice(this.pos, this.pos + 4));
+    return match ? (match[1] as 'AND' | 'OR' | 'NOT') : undefined;
+  }
+
+  private atGroupEnd(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.query.length || this.query[this.pos] === ')';
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.query.length && /\s/.test(this.query[this.pos])) {
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * Scope the unscoped terms of a group to a field
+ */
+function withField(node: QueryNode, field: QueryField): QueryNode {
+  if (node.kind === 'group') {
+    return { kind: 'group', clauses: node.clauses.map(clause => ({ ...clause, node: withField(clause.node, field) })) };
+  }
+  return node.field ? node : { ...node, field };
+}
@@ -0,0 +1,198 @@
+import { Analyzer, type AnalyzedToken } from './analysis.js';
+import { parseQuery, queryText } from './query.js';
+import type { SearchResult } from './search.js';
+
+/**
+ * Second-stage scorer for the top candidates of first-stage retrieval
+ *
+ * Implementations see the query next to each candidate, which first-stage
+ * indexes cannot afford for every chunk. Model-based rerankers (cross
+ * encoders, hosted rerank APIs) can be plugged in by implementing this
+ * interface.
+ */
+export interface Reranker {
+  /** Identifier used in logs */
+  readonly name: string;
+  /**
+   * Score candidates against a query, returning one score between 0 and
+   * 1 per candidate, in candidate order
+   */
+  rerank(query: string, candidates: SearchResult[]): Promise<number[]>;
+}
+
+/**
+ * Feature weights of the heuristic reranker
+ */
+export interface HeuristicRerankerWeights {
+  /** First-stage score (default: 1) */
+  retrieval?: number;
+  /** Share of query terms in the chunk (default: 1) */
+  coverage?: number;
+  /** How closely the query terms occur together (default: 1) */
+  proximity?: number;
+  /** Share of adjacent query word pairs found in query order (default: 1) */
+  phrase?: number;
+  /** Share of query terms in the chunk title (default: 0.5) */
+  title?: number;
+}
+
+/**
+ * Options for the heuristic reranker
+ */
+export interface HeuristicRerankerOptions {
+  /** Analyzer for query and chunk text; use the index analyzer */
+  analyzer?: Analyzer;
+  weights?: HeuristicRerankerWeights;
+}
+
+/**
+ * Offline reranker scoring term proximity, phrase coverage and title
+ * matches
+ *
+ * Looks at where query terms occur in each candidate: chunks holding the
+ * query words close together and in query order, or naming them in the
+ * title, move up. The score is the weighted mean of the features and the
+ * first-stage score, so it stays between 0 and 1.
+ */
+export class HeuristicReranker implements Reranker {
+  public readonly name = 'heuristic';
+  private analyzer: Analyzer;
+  private weights: Required<HeuristicRerankerWeights>;
+
+  constructor(options: HeuristicRerankerOptions = {}) {
+    this.analyzer = options.analyzer ?? new Analyzer();
+    this.weights = {
+      retrieval: options.weights?.retrieval ?? 1,
+      coverage: options.weights?.coverage ?? 1,
+      proximity: options.weights?.proximity ?? 1,
+      phrase: options.weights?.phrase ?? 1,
+      title: options.weights?.title ?? 0.5,
+    };
+  }
+
+  /**
+   * Score candidates against a query
+   */
+  async rerank(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const slots = groupByPosition(this.analyzer.analyze(queryText(parseQuery(query))));
+    const total = Object.values(this.weights).reduce((sum, weight) => sum + weight, 0);
+
+    return candidates.map(candidate => {
+      if (slots.length === 0 || total === 0) return candidate.score;
+
+      const content = termPositions(this.analyzer.analyze(candidate.chunk.content));
+      const title = termPositions(this.analyzer.analyze(candidate.chunk.title || ''));
+
+      const features: Record<keyof HeuristicRerankerWeights, number> = {
+        retrieval: Math.min(1, Math.max(0, candidate.score)),
+        coverage: share(slots, slot => slot.terms.some(term => content.has(term) || title.has(term))),
+        proximity: proximity(slots, content),
+        phrase: phraseCoverage(slots, content),
+        title: share(slots, slot => slot.terms.some(term => title.has(term))),
+      };
+
+      const weighted = (Object.keys(features) as Array<keyof HeuristicRerankerWeights>)
+        .reduce((sum, feature) => sum + this.weights[feature] * features[feature], 0);
+      return weighted / total;
+    });
+  }
+}
+
+/**
+ * Alternative terms at one query position
+ */
+interface QuerySlot {
+  position: number;
+  terms: string[];
+}
+
+/**
+ * Group alternative terms by query position, in query order
+ */
+function groupByPosition(tokens: AnalyzedToken[]): QuerySlot[] {
+  const slots = new Map<number, string[]>();
+  for (const { term, position } of tokens) {
+    slots.set(position, [...(slots.get(position) || []), term]);
+  }
+  return Array.from(slots, ([position, terms]) => ({ position, terms }))
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Positions of each term in analyzed text
+ */
+function termPositions(tokens: AnalyzedToken[]): Map<string, number[]> {
+  const positions = new Map<string, number[]>();
+  for (const { term, position } of tokens) {
+    const list = positions.get(term);
+    if (list) list.push(position);
+    else positions.set(term, [position]);
+  }
+  return positions;
+}
+
+/**
+ * Positions where any alternative of a query slot occurs, ascending
+ */
+function slotPositions(slot: QuerySlot, positions: Map<string, number[]>): number[] {
+  const found = new Set<number>();
+  for (const term of slot.terms) {
+    for (const position of positions.get(term) || []) found.add(position);
+  }
+  return Array.from(found).sort((a, b) => a - b);
+}
+
+function share(slots: QuerySlot[], predicate: (slot: QuerySlot) => boolean): number {
+  return slots.filter(predicate).length / slots.length;
+}
+
+/**
+ * Density of the smallest window holding every matched query slot
+ *
+ * 1 when the matched words are adjacent, falling as they spread out, and
+ * scaled by the share of slots matched. A single matched word scores as
+ * its share.
+ */
+function proximity(slots: QuerySlot[], positions: Map<string, number[]>): number {
+  const lists = slots.map(slot => slotPositions(slot, positions)).filter(list => list.length > 0);
+  if (lists.length === 0) return 0;
+  if (lists.length === 1) return 1 / slots.length;
+
+  // Sweep the merged occurrences, keeping a window covering every list
+  const events = lists
+    .flatMap((list, slot) => list.map(position => ({ position, slot })))
+    .sort((a, b) => a.position - b.position);
+  const counts = new Array<number>(lists.length).fill(0);
+  let covered = 0;
+  let left = 0;
+  let smallest = Infinity;
+
+  for (const event of events) {
+    if (counts[event.slot]++ === 0) covered++;
+
+    while (covered === lists.length) {
+      smallest = Math.min(smallest, event.position - events[left].position + 1);
+      if (--counts[events[left].slot] === 0) covered--;
+      left++;
+    }
+  }
+
+  // Identifier parts share positions, so the window can be narrower than the slots
+  return Math.min(1, lists.length / smallest) * (lists.length / slots.length);
+}
+
+/**
+ * Share of adjacent query slot pairs occurring in query order at the
+ * same distance as in the query (stop words leave gaps in both)
+ */
+function phraseCoverage(slots: QuerySlot[], positions: Map<string, number[]>): number {
+  if (slots.length < 2) return share(slots, slot => slot.terms.some(term => positions.has(term)));
+
+  let found = 0;
+  for (let i = 0; i + 1 < slots.length; i++) {
+    const gap = slots[i + 1].position - slots[i].position;
+    const next = new Set(slotPositions(slots[i + 1], positions));
+    if (slotPositions(slots[i], positions).some(position => next.has(position + gap))) found++;
+  }
+  return found / (slots.length - 1);
+}
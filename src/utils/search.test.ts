@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { SearchIndex } from './search.js';
+import { ChunkingUtils } from './chunking.js';
+import { KnowledgeProviderConfigSchema, type Document } from '../types/index.js';
+
+const documents: Document[] = [
+  {
+    id: 'docs:install.md',
+    type: 'markdown',
+    title: 'Installation',
+    content: '# Install\n\nInstall on Linux with the package manager: run apt install acme.\n',
+    metadata: { source: 'docs' },
+  },
+  {
+    id: 'docs:usage.md',
+    type: 'markdown',
+    title: 'Usage',
+    content: '# Usage\n\nRun acme serve to start the server on port 8080.\n',
+    metadata: { source: 'docs' },
+  },
+];
+
+function buildIndex(): SearchIndex {
+  const index = new SearchIndex();
+  const chunking = new ChunkingUtils(1000, 200);
+  for (const document of documents) {
+    for (const chunk of chunking.chunk(document)) index.add(chunk);
+  }
+  return index;
+}
+
+describe('SearchIndex scores', () => {
+  it('range from 0 to 1, with full matches near 1', () => {
+    const [hit] = buildIndex().search('install linux', 5);
+
+    expect(hit.chunk.documentId).toBe('docs:install.md');
+    expect(hit.score).toBeGreaterThan(0.9);
+    expect(hit.score).toBeLessThanOrEqual(1);
+  });
+
+  it('keep natural-language questions above the default minimum score', () => {
+    const { minScore } = KnowledgeProviderConfigSchema.parse({});
+    const hits = buildIndex()
+      .search('how do I install on linux', 5)
+      .filter(hit => hit.score >= minScore);
+
+    // Filler words absent from the index pull the score of the exact match down
+    expect(hits[0]?.chunk.documentId).toBe('docs:install.md');
+    expect(hits[0].score).toBeLessThan(0.5);
+  });
+});
+
+describe('SearchIndex suggestions', () => {
+  it('correct unknown words but not other forms of indexed terms', () => {
+    const index = new SearchIndex();
+    const chunking = new ChunkingUtils(1000, 200);
+    const document: Document = {
+      id: 'docs:auth.md',
+      type: 'markdown',
+      content: 'Access tokens are refreshed before they expire.',
+      metadata: { source: 'docs' },
+    };
+    for (const chunk of chunking.chunk(document)) index.add(chunk);
+
+    expect(index.suggest('token refresh')).toEqual([]);
+    expect(index.suggest('tokenz refresh')).toEqual(['tokens refresh']);
+  });
+});
+
+describe('SearchIndex scopes', () => {
+  it('check excluded terms and field scopes but accept any text term', () => {
+    const index = buildIndex();
+    const install = index.search('install', 1)[0].chunk.id;
+    const usage = index.search('serve', 1)[0].chunk.id;
+
+    const excluding = index.scopeOf('server -linux')!;
+    expect(excluding(install)).toBe(false);
+    expect(excluding(usage)).toBe(true);
+
+    const scoped = index.scopeOf('kubernetes +source:wiki')!;
+    expect(scoped(install)).toBe(false);
+    expect(index.scopeOf('kubernetes +source:docs')!(usage)).toBe(true);
+  });
+
+  it('are undefined for queries without exclusions or field scopes', () => {
+    expect(buildIndex().scopeOf('install OR "acme serve"')).toBeUndefined();
+  });
+});
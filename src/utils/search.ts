@@ -1,4 +1,8 @@
-import type { DocumentChunk, DocumentType } from '../types/index.js';
+import type { DocumentChunk, RankingConfig, SearchFilters } from '../types/index.js';
+import { FilterIndex } from './filters.js';
+import { fieldFilter, parseQuery, type QueryNode, type QueryOccur } from './query.js';
+import { Analyzer } from './analysis.js';
+import { autoMaxEdits, TermDictionary } from './fuzzy.js';
 
 /**
  * Search result
@@ -10,39 +14,144 @@ export interface SearchResult {
 }
 
 /**
- * Search filters
+ * Indexed text fields of a chunk
  */
-export interface SearchFilters {
-  source?: string;
-  type?: DocumentType;
-  tags?: string[];
-  language?: string;
+export type SearchField = 'title' | 'content';
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'content'];
+
+/**
+ * Per-field term frequencies of one term in one chunk
+ */
+export type FieldFrequencies = Partial<Record<SearchField, number>>;
+
+/**
+ * Per-field token positions of one term in one chunk
+ */
+export type FieldPositions = Partial<Record<SearchField, number[]>>;
+
+/**
+ * Serializable state of a search index
+ */
+export interface SearchIndexSnapshot {
+  chunks: DocumentChunk[];
+  postings: Array<[string, Array<[string, FieldPositions]>]>;
+  fieldLengths: Array<[string, Record<SearchField, number>]>;
+  /** Signature of the analyzer the postings were built with */
+  analyzer: string;
 }
 
 /**
- * Simple keyword-based search index
- * 
+ * A query with its terms resolved against the index
+ */
+type CompiledQuery =
+  | {
+    kind: 'leaf';
+    /** IDF weight of the term, phrase or metadata condition */
+    weight: number;
+    /** Saturated frequency per matching chunk */
+    matches: Map<string, number>;
+    /** Analyzed terms to highlight */
+    terms?: string[];
+    /** Whether the leaf is a metadata condition rather than text */
+    metadata?: boolean;
+  }
+  | { kind: 'group'; clauses: Array<{ occur: QueryOccur; node: CompiledQuery }> };
+
+type CompiledLeaf = Extract<CompiledQuery, { kind: 'leaf' }>;
+
+/**
+ * Keyword search index with BM25F scoring
+ *
+ * Text is analyzed into terms by an `Analyzer` (identifier splitting,
+ * stop words, synonyms, stemming), the same way for chunks and queries.
+ * Queries use the syntax of `parseQuery`: phrases are matched on token
+ * positions, `+`/`-`/AND/OR decide which chunks match, and field-scoped
+ * terms match a single text field or chunk metadata.
+ *
+ * Query words missing from the vocabulary are matched against close
+ * vocabulary words (up to two edits) at a lower weight, and `suggest`
+ * proposes corrected queries.
+ *
+ * Scores are normalized to 0-1 as the IDF-weighted share of query terms
+ * a chunk matches, where a term counts fully once its saturated term
+ * frequency reaches that of a single occurrence in an average-length
+ * chunk. Unlike dividing by the best hit, this makes scores comparable
+ * across queries, so a fixed threshold is meaningful. Results are
+ * ordered by normalized score, then by raw BM25F score.
+ *
  * In production, this would be replaced with a vector database
  * or full-text search engine like Elasticsearch.
  */
 export class SearchIndex {
   private chunks: Map<string, DocumentChunk> = new Map();
-  private invertedIndex: Map<string, Set<string>> = new Map();
+  private invertedIndex: Map<string, Map<string, FieldPositions>> = new Map();
+  private fieldLengths: Map<string, Record<SearchField, number>> = new Map();
+  private documentChunks: Map<string, Set<string>> = new Map();
+  private filterIndex = new FilterIndex();
+  private totalFieldLengths: Record<SearchField, number> = { title: 0, content: 0 };
+  private k1: number;
+  private b: number;
+  private fieldBoosts: Record<SearchField, number>;
+  private fuzzy: { maxEdits: number; weight: number };
+  private analyzer: Analyzer;
+  private dictionary = new TermDictionary();
+
+  constructor(options: RankingConfig = {}, analyzer: Analyzer = new Analyzer()) {
+    this.analyzer = analyzer;
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.fieldBoosts = {
+      title: options.fieldBoosts?.title ?? 2,
+      content: options.fieldBoosts?.content ?? 1,
+    };
+    this.fuzzy = {
+      maxEdits: options.fuzzy?.enabled === false ? 0 : options.fuzzy?.maxEdits ?? 2,
+      weight: options.fuzzy?.weight ?? 0.8,
+    };
+  }
 
   /**
    * Add a chunk to the index
    */
   add(chunk: DocumentChunk): void {
+    if (this.chunks.has(chunk.id)) {
+      this.remove(chunk.id);
+    }
+
     this.chunks.set(chunk.id, chunk);
-    
-    // Tokenize and index
-    const tokens = this.tokenize(chunk.content);
-    
-    for (const token of tokens) {
-      if (!this.invertedIndex.has(token)) {
-        this.invertedIndex.set(token, new Set());
+    this.trackDocumentChunk(chunk);
+    this.filterIndex.add(chunk);
+
+    const lengths: Record<SearchField, number> = { title: 0, content: 0 };
+
+    for (const field of SEARCH_FIELDS) {
+      const tokens = this.analyzer.analyze(this.fieldText(chunk, field));
+      // Alternatives at one position (synonyms, identifier parts) count once
+      const length = new Set(tokens.map(token => token.position)).size;
+      lengths[field] = length;
+      this.totalFieldLengths[field] += length;
+
+      for (const { term, position } of tokens) {
+        let postings = this.invertedIndex.get(term);
+        if (!postings) {
+          postings = new Map();
+          this.invertedIndex.set(term, postings);
+        }
+
+        let positions = postings.get(chunk.id);
+        if (!positions) {
+          positions = {};
+          postings.set(chunk.id, positions);
+        }
+        (positions[field] ??= []).push(position);
       }
-      this.invertedIndex.get(token)!.add(chunk.id);
+    }
+
+    this.fieldLengths.set(chunk.id, lengths);
+
+    for (const word of this.surfaceWords(chunk)) {
+      this.dictionary.add(word);
     }
   }
 
@@ -54,63 +163,433 @@ export class SearchIndex {
     if (!chunk) return false;
 
     // Remove from inverted index
-    const tokens = this.tokenize(chunk.content);
-    for (const token of tokens) {
-      this.invertedIndex.get(token)?.delete(chunkId);
+    for (const field of SEARCH_FIELDS) {
+      for (const { term } of this.analyzer.analyze(this.fieldText(chunk, field))) {
+        const postings = this.invertedIndex.get(term);
+        if (!postings) continue;
+
+        postings.delete(chunkId);
+        if (postings.size === 0) {
+          this.invertedIndex.delete(term);
+        }
+      }
+    }
+
+    for (const word of this.surfaceWords(chunk)) {
+      this.dictionary.remove(word);
+    }
+
+    const lengths = this.fieldLengths.get(chunkId);
+    if (lengths) {
+      for (const field of SEARCH_FIELDS) {
+        this.totalFieldLengths[field] -= lengths[field];
+      }
+      this.fieldLengths.delete(chunkId);
+    }
+
+    this.filterIndex.remove(chunkId);
+
+    const siblings = this.documentChunks.get(chunk.documentId);
+    siblings?.delete(chunkId);
+    if (siblings?.size === 0) {
+      this.documentChunks.delete(chunk.documentId);
     }
 
     return this.chunks.delete(chunkId);
   }
 
+  /**
+   * Remove all chunks of a document
+   *
+   * @returns the number of chunks removed
+   */
+  removeDocument(documentId: string): number {
+    const chunkIds = Array.from(this.documentChunks.get(documentId) || []);
+    for (const chunkId of chunkIds) {
+      this.remove(chunkId);
+    }
+    return chunkIds.length;
+  }
+
   /**
    * Search for chunks
+   *
+   * Filters are resolved first, so only matching chunks are scored.
+   *
+   * @throws QuerySyntaxError if the query is malformed
    */
   search(
     query: string,
     limit: number = 10,
     filters?: SearchFilters
   ): SearchResult[] {
-    const queryTokens = this.tokenize(query);
-    const scores = new Map<string, number>();
-
-    // Calculate scores based on token matches
-    for (const token of queryTokens) {
-      const matchingChunks = this.invertedIndex.get(token);
-      if (matchingChunks) {
-        for (const chunkId of matchingChunks) {
-          scores.set(chunkId, (scores.get(chunkId) || 0) + 1);
-        }
-      }
-    }
+    const parsed = parseQuery(query);
+    if (this.chunks.size === 0) return [];
+
+    const allowed = this.filterIndex.match(filters);
+    if (allowed?.size === 0) return [];
+
+    const compiled = this.compile(parsed, allowed);
+    if (!compiled) return [];
 
-    // Get results and normalize scores
-    const maxScore = Math.max(...scores.values(), 1);
-    let results: SearchResult[] = [];
+    // Terms that are not excluded find the candidates and count towards the score
+    const leaves: CompiledLeaf[] = [];
+    collectPositiveLeaves(compiled, leaves);
 
-    for (const [chunkId, score] of scores) {
+    const totalWeight = leaves.reduce((sum, leaf) => sum + leaf.weight, 0);
+    const candidates = new Set(leaves.flatMap(leaf => Array.from(leaf.matches.keys())));
+    const ranked: Array<SearchResult & { raw: number }> = [];
+
+    for (const chunkId of candidates) {
       const chunk = this.chunks.get(chunkId);
-      if (!chunk) continue;
+      if (!chunk || !isMatch(compiled, chunkId)) continue;
 
-      // Apply filters
-      if (filters) {
-        if (filters.source && chunk.metadata.source !== filters.source) continue;
-        if (filters.language && chunk.metadata.language !== filters.language) continue;
-        if (filters.tags && !filters.tags.some(t => chunk.metadata.tags?.includes(t))) continue;
+      let raw = 0;
+      let coverage = 0;
+      for (const leaf of leaves) {
+        const saturated = leaf.matches.get(chunkId);
+        if (saturated === undefined) continue;
+        raw += leaf.weight * saturated;
+        coverage += leaf.weight * Math.min(saturated, 1);
       }
 
-      const normalizedScore = score / maxScore;
-      const highlights = this.getHighlights(chunk.content, queryTokens);
-
-      results.push({
+      ranked.push({
         chunk,
-        score: normalizedScore,
-        highlights,
+        score: totalWeight > 0 ? coverage / totalWeight : 0,
+        raw,
       });
     }
 
     // Sort by score and limit
-    results.sort((a, b) => b.score - a.score);
-    return results.slice(0, limit);
+    ranked.sort((a, b) => b.score - a.score || b.raw - a.raw);
+
+    const terms = new Set(leaves.flatMap(leaf => leaf.terms || []));
+    return ranked.slice(0, limit).map(({ chunk, score }) => ({
+      chunk,
+      score,
+      highlights: this.getHighlights(chunk.content, terms),
+    }));
+  }
+
+  /**
+   * Build a check for the excluded terms and field scopes of a query, for
+   * retrievers that only see its plain text (e.g. embeddings)
+   *
+   * Text terms that are not excluded count as matching, since such
+   * retrievers find chunks without the words themselves.
+   *
+   * @returns undefined when the query has no exclusions or field scopes
+   * @throws QuerySyntaxError if the query is malformed
+   */
+  scopeOf(query: string): ((chunkId: string) => boolean) | undefined {
+    const compiled = this.compile(parseQuery(query));
+    if (!compiled || !hasScope(compiled)) return undefined;
+    return chunkId => isScopeMatch(compiled, chunkId);
+  }
+
+  /**
+   * Resolve a parsed query against the index
+   *
+   * Terms without indexable tokens are dropped.
+   *
+   * @returns null when nothing of the query is left
+   */
+  private compile(node: QueryNode, allowed?: Set<string>): CompiledQuery | null {
+    if (node.kind === 'group') {
+      const clauses = node.clauses
+        .map(clause => ({ occur: clause.occur, node: this.compile(clause.node, allowed) }))
+        .filter((clause): clause is { occur: QueryOccur; node: CompiledQuery } => clause.node !== null);
+      return clauses.length > 0 ? { kind: 'group', clauses } : null;
+    }
+
+    const filter = fieldFilter(node.field, node.text);
+    if (filter) {
+      const matched = this.filterIndex.match(filter) || new Set<string>();
+      return {
+        kind: 'leaf',
+        weight: this.idfForCount(matched.size),
+        matches: new Map(Array.from(matched).filter(id => !allowed || allowed.has(id)).map(id => [id, 1])),
+        metadata: true,
+      };
+    }
+
+    const fields = node.field === 'title' || node.field === 'content' ? [node.field] : SEARCH_FIELDS;
+    const leaf = this.compileText(node.text, fields, allowed);
+
+    // Words that are indexed but filtered out are not expanded
+    if (leaf && leaf.matches.size === 0 && node.kind === 'term' && this.dictionary.frequency(node.text) === 0) {
+      return this.compileFuzzy(node.text, fields, allowed) || leaf;
+    }
+    return leaf;
+  }
+
+  /**
+   * Resolve text to a term or phrase leaf
+   *
+   * @returns null when the text has no indexable terms
+   */
+  private compileText(text: string, fields: SearchField[], allowed?: Set<string>): CompiledLeaf | null {
+    // Terms at one position are alternatives; several positions form a phrase
+    const slots = new Map<number, string[]>();
+    for (const { term, position } of this.analyzer.analyze(text)) {
+      slots.set(position, [...(slots.get(position) || []), term]);
+    }
+    if (slots.size === 0) return null;
+
+    return slots.size === 1
+      ? this.compileTerm(Array.from(slots.values())[0], fields, allowed)
+      : this.compilePhrase(slots, fields, allowed);
+  }
+
+  /**
+   * Match a word missing from the index through close vocabulary words
+   *
+   * Each edit multiplies the match strength by the fuzzy weight. The leaf
+   * weighs as much as a term occurring in all the matched chunks.
+   *
+   * @returns null when there are no close words
+   */
+  private compileFuzzy(word: string, fields: SearchField[], allowed?: Set<string>): CompiledLeaf | null {
+    if (!/^[\p{L}\p{N}_]+$/u.test(word)) return null;
+
+    const maxEdits = Math.min(this.fuzzy.maxEdits, autoMaxEdits(word.length));
+    if (maxEdits === 0) return null;
+
+    const matches = new Map<string, number>();
+    const terms: string[] = [];
+    const matched = new Set<string>();
+
+    for (const candidate of this.dictionary.similar(word, maxEdits)) {
+      const variant = this.compileText(candidate.term, fields);
+      if (!variant) continue;
+
+      const factor = this.fuzzy.weight ** candidate.distance;
+      for (const [chunkId, saturated] of variant.matches) {
+        matched.add(chunkId);
+        if (allowed && !allowed.has(chunkId)) continue;
+        matches.set(chunkId, Math.max(matches.get(chunkId) || 0, saturated * factor));
+      }
+      terms.push(...(variant.terms || []));
+    }
+
+    if (matched.size === 0) return null;
+    return { kind: 'leaf', weight: this.idfForCount(matched.size), matches, terms };
+  }
+
+  /**
+   * Propose corrected queries
+   *
+   * Query words whose analyzed terms are not indexed are replaced with
+   * the closest vocabulary words; `token` is left alone when `tokens` is
+   * indexed, since both analyze to the same term. With `includeRare`,
+   * words that are indexed but ten times rarer than a close word are
+   * corrected too. Alternatives for the first corrected word make up
+   * further suggestions.
+   *
+   * @throws QuerySyntaxError if the query is malformed
+   */
+  suggest(query: string, includeRare: boolean = false, limit: number = 3): string[] {
+    const corrections = new Map<string, string[]>();
+
+    for (const word of positiveWords(parseQuery(query))) {
+      const maxEdits = Math.min(Math.max(this.fuzzy.maxEdits, 1), autoMaxEdits(word.length));
+      if (maxEdits === 0 || corrections.has(word)) continue;
+
+      // Stop words have nothing to correct
+      const terms = new Set(this.analyzer.analyze(word).map(token => token.term));
+      if (terms.size === 0) continue;
+
+      const indexed = Array.from(terms).some(term => this.invertedIndex.has(term));
+      if (indexed && !includeRare) continue;
+
+      // Spellings of the word's own terms count towards its frequency but are no correction
+      const sameTerms = (candidate: string) => {
+        const tokens = this.analyzer.analyze(candidate);
+        return tokens.length > 0 && tokens.every(token => terms.has(token.term));
+      };
+      const similar = this.dictionary.similar(word, maxEdits);
+      const frequency = Math.max(
+        this.dictionary.frequency(word),
+        ...similar.filter(candidate => sameTerms(candidate.term)).map(candidate => candidate.frequency)
+      );
+
+      const candidates = similar
+        .filter(candidate => !sameTerms(candidate.term) && candidate.frequency >= frequency * 10);
+      if (candidates.length > 0) {
+        corrections.set(word, candidates.map(candidate => candidate.term));
+      }
+    }
+
+    if (corrections.size === 0) return [];
+
+    const apply = (replacements: Map<string, string>) => {
+      let corrected = query;
+      for (const [word, replacement] of replacements) {
+        const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        corrected = corrected.replace(new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'gu'), replacement);
+      }
+      return corrected;
+    };
+
+    const best = new Map(Array.from(corrections, ([word, terms]) => [word, terms[0]]));
+    const [firstWord, firstTerms] = corrections.entries().next().value!;
+    const suggestions = new Set([apply(best)]);
+
+    for (const alternative of firstTerms.slice(1)) {
+      suggestions.add(apply(new Map([...best, [firstWord, alternative]])));
+    }
+
+    return Array.from(suggestions).slice(0, limit);
+  }
+
+  /**
+   * Find the chunks containing any of a term's alternatives in the given fields
+   */
+  private compileTerm(terms: string[], fields: SearchField[], allowed?: Set<string>): CompiledLeaf {
+    const postings = this.postingsOf(terms);
+    const matches = new Map<string, number>();
+
+    // Walk whichever of the posting and filter lists is shorter
+    const candidates = allowed && allowed.size < postings.size ? allowed : postings.keys();
+
+    for (const chunkId of candidates) {
+      const positions = postings.get(chunkId);
+      if (!positions || (allowed && !allowed.has(chunkId))) continue;
+
+      const frequencies: FieldFrequencies = {};
+      for (const field of fields) {
+        if (positions[field]?.length) frequencies[field] = positions[field]!.length;
+      }
+      if (Object.keys(frequencies).length > 0) {
+        matches.set(chunkId, this.saturatedFrequency(chunkId, frequencies));
+      }
+    }
+
+    return { kind: 'leaf', weight: this.idfForCount(postings.size), matches, terms };
+  }
+
+  /**
+   * Find the chunks containing the terms at the same relative positions
+   * in one of the given fields
+   *
+   * A phrase weighs as much as its terms together.
+   */
+  private compilePhrase(slots: Map<number, string[]>, fields: SearchField[], allowed?: Set<string>): CompiledLeaf {
+    const entries = Array.from(slots.entries()).sort(([a], [b]) => a - b);
+    const first = entries[0][0];
+    const lists = entries.map(([position, terms]) => ({ offset: position - first, postings: this.postingsOf(terms) }));
+
+    const weight = lists.reduce((sum, { postings }) => sum + this.idfForCount(postings.size), 0);
+    const terms = entries.flatMap(([, slotTerms]) => slotTerms);
+    const matches = new Map<string, number>();
+    const shortest = lists.reduce((a, b) => (b.postings.size < a.postings.size ? b : a)).postings;
+
+    for (const chunkId of shortest.keys()) {
+      if (allowed && !allowed.has(chunkId)) continue;
+
+      const frequencies: FieldFrequencies = {};
+      for (const field of fields) {
+        const positions = lists.map(({ postings }) => postings.get(chunkId)?.[field]);
+        if (positions.some(list => !list)) continue;
+
+        const following = lists.slice(1).map(({ offset }, i) => ({ offset, set: new Set(positions[i + 1]) }));
+        const count = positions[0]!.filter(start =>
+          following.every(({ offset, set }) => set.has(start + offset))
+        ).length;
+        if (count > 0) frequencies[field] = count;
+      }
+
+      if (Object.keys(frequencies).length > 0) {
+        matches.set(chunkId, this.saturatedFrequency(chunkId, frequencies));
+      }
+    }
+
+    return { kind: 'leaf', weight, matches, terms };
+  }
+
+  /**
+   * Postings of a term, merged across its alternatives
+   */
+  private postingsOf(terms: string[]): Map<string, FieldPositions> {
+    if (terms.length === 1) return this.invertedIndex.get(terms[0]) || new Map();
+
+    const merged = new Map<string, FieldPositions>();
+    for (const term of terms) {
+      for (const [chunkId, positions] of this.invertedIndex.get(term) || []) {
+        const target = merged.get(chunkId) || {};
+        for (const field of SEARCH_FIELDS) {
+          const list = positions[field];
+          if (list) target[field] = Array.from(new Set([...(target[field] || []), ...list]));
+        }
+        merged.set(chunkId, target);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Inverse document frequency of a term or condition met by `n` chunks
+   * (BM25 variant, always positive)
+   */
+  private idfForCount(n: number): number {
+    const total = this.chunks.size;
+    return Math.log(1 + (total - n + 0.5) / (n + 0.5));
+  }
+
+  /**
+   * BM25F saturated term frequency, equal to 1 for a single occurrence
+   * in an average-length chunk
+   */
+  private saturatedFrequency(chunkId: string, frequencies: FieldFrequencies): number {
+    const lengths = this.fieldLengths.get(chunkId);
+    let weighted = 0;
+
+    for (const field of SEARCH_FIELDS) {
+      const tf = frequencies[field];
+      if (!tf || !lengths) continue;
+
+      const average = this.totalFieldLengths[field] / this.chunks.size || 1;
+      const norm = 1 - this.b + this.b * (lengths[field] / average);
+      weighted += this.fieldBoosts[field] * tf / norm;
+    }
+
+    return weighted * (this.k1 + 1) / (weighted + this.k1);
+  }
+
+  /**
+   * Distinct words of a chunk, as they appear in its text
+   */
+  private surfaceWords(chunk: DocumentChunk): string[] {
+    // Keyed by lowercase so each word counts once per chunk
+    const words = new Map<string, string>();
+    for (const field of SEARCH_FIELDS) {
+      for (const [word] of this.fieldText(chunk, field).matchAll(/[\p{L}\p{N}_]+/gu)) {
+        if (!words.has(word.toLowerCase())) words.set(word.toLowerCase(), word);
+      }
+    }
+    return Array.from(words.values());
+  }
+
+  /**
+   * Get the text of a chunk field
+   */
+  private fieldText(chunk: DocumentChunk, field: SearchField): string {
+    return field === 'title' ? chunk.title || '' : chunk.content;
+  }
+
+  /**
+   * Get all indexed chunks
+   */
+  getChunks(): DocumentChunk[] {
+    return Array.from(this.chunks.values());
+  }
+
+  /**
+   * Get the chunks of a document, in document order
+   */
+  getDocumentChunks(documentId: string): DocumentChunk[] {
+    return Array.from(this.documentChunks.get(documentId) || [], id => this.chunks.get(id)!)
+      .sort((a, b) => a.startOffset - b.startOffset);
   }
 
   /**
@@ -126,46 +605,194 @@ export class SearchIndex {
   clear(): void {
     this.chunks.clear();
     this.invertedIndex.clear();
+    this.fieldLengths.clear();
+    this.documentChunks.clear();
+    this.filterIndex.clear();
+    this.dictionary.clear();
+    this.totalFieldLengths = { title: 0, content: 0 };
   }
 
   /**
-   * Tokenize text for indexing/searching
+   * Record which document a chunk belongs to
    */
-  private tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(token => token.length > 2);
+  private trackDocumentChunk(chunk: DocumentChunk): void {
+    let chunkIds = this.documentChunks.get(chunk.documentId);
+    if (!chunkIds) {
+      chunkIds = new Set();
+      this.documentChunks.set(chunk.documentId, chunkIds);
+    }
+    chunkIds.add(chunk.id);
   }
 
   /**
-   * Get highlighted snippets
+   * Take a snapshot of the index, including its postings
+   */
+  snapshot(): SearchIndexSnapshot {
+    return {
+      chunks: this.getChunks(),
+      postings: Array.from(this.invertedIndex.entries())
+        .map(([token, postings]) => [token, Array.from(postings.entries())]),
+      fieldLengths: Array.from(this.fieldLengths.entries()),
+      analyzer: this.analyzer.signature,
+    };
+  }
+
+  /**
+   * Replace the index contents with a snapshot
+   *
+   * Postings are reused as they are unless they were built with another
+   * analyzer configuration, in which case the chunks are re-analyzed.
+   */
+  restore(snapshot: SearchIndexSnapshot): void {
+    if (snapshot.analyzer !== this.analyzer.signature) {
+      this.clear();
+      for (const chunk of snapshot.chunks) {
+        this.add(chunk);
+      }
+      return;
+    }
+
+    this.chunks = new Map(snapshot.chunks.map(chunk => [chunk.id, chunk]));
+    this.invertedIndex = new Map(
+      snapshot.postings.map(([token, postings]) => [token, new Map(postings)])
+    );
+    this.fieldLengths = new Map(snapshot.fieldLengths);
+    this.totalFieldLengths = { title: 0, content: 0 };
+    this.documentChunks.clear();
+    this.filterIndex.clear();
+    this.dictionary.clear();
+
+    for (const chunk of snapshot.chunks) {
+      this.trackDocumentChunk(chunk);
+      this.filterIndex.add(chunk);
+      for (const word of this.surfaceWords(chunk)) {
+        this.dictionary.add(word);
+      }
+    }
+
+    for (const lengths of this.fieldLengths.values()) {
+      for (const field of SEARCH_FIELDS) {
+        this.totalFieldLengths[field] += lengths[field];
+      }
+    }
+  }
+
+  /**
+   * Get highlighted snippets around words that analyze to query terms
    */
   private getHighlights(
     content: string,
-    queryTokens: string[],
+    terms: Set<string>,
     windowSize: number = 50
   ): string[] {
     const highlights: string[] = [];
-    const lowerContent = content.toLowerCase();
+    const analyzed = new Map<string, boolean>();
+    let covered = -1;
+
+    for (const match of content.matchAll(/[\p{L}\p{N}_]+/gu)) {
+      if (highlights.length >= 3) break;
+      if (match.index! < covered) continue;
 
-    for (const token of queryTokens) {
-      let index = lowerContent.indexOf(token);
-      
-      while (index !== -1 && highlights.length < 3) {
-        const start = Math.max(0, index - windowSize);
-        const end = Math.min(content.length, index + token.length + windowSize);
-        
-        let snippet = content.slice(start, end);
-        if (start > 0) snippet = '...' + snippet;
-        if (end < content.length) snippet = snippet + '...';
-        
-        highlights.push(snippet);
-        index = lowerContent.indexOf(token, index + 1);
+      const word = match[0];
+      let matches = analyzed.get(word);
+      if (matches === undefined) {
+        matches = this.analyzer.analyze(word).some(token => terms.has(token.term));
+        analyzed.set(word, matches);
       }
+      if (!matches) continue;
+
+      const start = Math.max(0, match.index! - windowSize);
+      const end = Math.min(content.length, match.index! + word.length + windowSize);
+
+      let snippet = content.slice(start, end);
+      if (start > 0) snippet = '...' + snippet;
+      if (end < content.length) snippet = snippet + '...';
+
+      highlights.push(snippet);
+      covered = end;
+    }
+
+    return highlights;
+  }
+}
+
+/**
+ * Collect the leaves of a query that are not excluded
+ */
+function collectPositiveLeaves(node: CompiledQuery, leaves: CompiledLeaf[]): void {
+  if (node.kind === 'leaf') {
+    leaves.push(node);
+    return;
+  }
+  for (const clause of node.clauses) {
+    if (clause.occur !== 'mustNot') collectPositiveLeaves(clause.node, leaves);
+  }
+}
+
+/**
+ * Single words of a query's text terms that are not excluded
+ */
+function positiveWords(node: QueryNode): string[] {
+  if (node.kind === 'group') {
+    return node.clauses
+      .filter(clause => clause.occur !== 'mustNot')
+      .flatMap(clause => positiveWords(clause.node));
+  }
+  if (node.kind !== 'term' || fieldFilter(node.field, node.text)) return [];
+  return /^[\p{L}\p{N}_]+$/u.test(node.text) ? [node.text] : [];
+}
+
+/**
+ * Check whether a query has excluded or metadata-scoped clauses
+ */
+function hasScope(node: CompiledQuery): boolean {
+  if (node.kind === 'leaf') return node.metadata === true;
+  return node.clauses.some(clause => clause.occur === 'mustNot' || hasScope(clause.node));
+}
+
+/**
+ * Check whether a chunk satisfies a query's match rules, counting text
+ * terms that are not excluded as matching
+ */
+function isScopeMatch(node: CompiledQuery, chunkId: string): boolean {
+  if (node.kind === 'leaf') return !node.metadata || node.matches.has(chunkId);
+
+  let hasMust = false;
+  let anyShould = false;
+
+  for (const { occur, node: child } of node.clauses) {
+    if (occur === 'must') {
+      if (!isScopeMatch(child, chunkId)) return false;
+      hasMust = true;
+    } else if (occur === 'mustNot') {
+      if (isMatch(child, chunkId)) return false;
+    } else if (!anyShould && isScopeMatch(child, chunkId)) {
+      anyShould = true;
     }
+  }
+
+  return hasMust || anyShould;
+}
 
-    return highlights.slice(0, 3);
+/**
+ * Check whether a chunk satisfies a query's match rules
+ */
+function isMatch(node: CompiledQuery, chunkId: string): boolean {
+  if (node.kind === 'leaf') return node.matches.has(chunkId);
+
+  let hasMust = false;
+  let anyShould = false;
+
+  for (const { occur, node: child } of node.clauses) {
+    if (occur === 'must') {
+      if (!isMatch(child, chunkId)) return false;
+      hasMust = true;
+    } else if (occur === 'mustNot') {
+      if (isMatch(child, chunkId)) return false;
+    } else if (!anyShould && isMatch(child, chunkId)) {
+      anyShould = true;
+    }
   }
+
+  return hasMust || anyShould;
 }
@@ -1,4 +1,5 @@
 import type { Document } from '../types/index.js';
+import { contentHash } from './hash.js';
 
 /**
  * Stored document with metadata
@@ -6,6 +7,24 @@ import type { Document } from '../types/index.js';
 export interface StoredDocument extends Document {
   storedAt: string;
   updatedAt: string;
+  contentHash: string;
+}
+
+/**
+ * Record of a deleted document
+ */
+export interface Tombstone {
+  id: string;
+  source: string;
+  removedAt: string;
+}
+
+/**
+ * Serializable state of a document store
+ */
+export interface DocumentStoreSnapshot {
+  documents: StoredDocument[];
+  tombstones: Tombstone[];
 }
 
 /**
@@ -13,11 +32,12 @@ export interface StoredDocument extends Document {
  */
 export class DocumentStore {
   private documents: Map<string, StoredDocument> = new Map();
+  private tombstones: Map<string, Tombstone> = new Map();
 
   /**
    * Add or update a document
    */
-  add(document: Document): void {
+  add(document: Document): StoredDocument {
     const now = new Date().toISOString();
     const existing = this.documents.get(document.id);
 
@@ -25,9 +45,12 @@ export class DocumentStore {
       ...document,
       storedAt: existing?.storedAt || now,
       updatedAt: now,
+      contentHash: contentHash(document),
     };
 
     this.documents.set(document.id, stored);
+    this.tombstones.delete(document.id);
+    return stored;
   }
 
   /**
@@ -45,12 +68,41 @@ export class DocumentStore {
   }
 
   /**
-   * Delete a document
+   * Delete a document, leaving a tombstone
    */
   delete(id: string): boolean {
+    const existing = this.documents.get(id);
+    if (!existing) return false;
+
+    this.tombstones.set(id, {
+      id,
+      source: existing.metadata.source,
+      removedAt: new Date().toISOString(),
+    });
     return this.documents.delete(id);
   }
 
+  /**
+   * Get the tombstone of a deleted document
+   */
+  getTombstone(id: string): Tombstone | undefined {
+    return this.tombstones.get(id);
+  }
+
+  /**
+   * Drop tombstones older than the given date
+   */
+  pruneTombstones(before: Date): number {
+    let pruned = 0;
+    for (const [id, tombstone] of this.tombstones) {
+      if (new Date(tombstone.removedAt) < before) {
+        this.tombstones.delete(id);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
   /**
    * Get all documents
    */
@@ -94,6 +146,25 @@ export class DocumentStore {
    */
   clear(): void {
     this.documents.clear();
+    this.tombstones.clear();
+  }
+
+  /**
+   * Take a snapshot of all stored documents
+   */
+  snapshot(): DocumentStoreSnapshot {
+    return {
+      documents: this.all(),
+      tombstones: Array.from(this.tombstones.values()),
+    };
+  }
+
+  /**
+   * Replace the store contents with a snapshot
+   */
+  restore(snapshot: DocumentStoreSnapshot): void {
+    this.documents = new Map(snapshot.documents.map(doc => [doc.id, doc]));
+    this.tombstones = new Map(snapshot.tombstones.map(t => [t.id, t]));
   }
 
   /**
@@ -0,0 +1,530 @@
+/**
+ * Kinds of code symbols recognized by the extractor
+ */
+export type SymbolKind =
+  | 'function'
+  | 'method'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'struct'
+  | 'trait'
+  | 'impl'
+  | 'module';
+
+/**
+ * A code symbol with its location (1-based, inclusive lines)
+ */
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  /** Enclosing class, impl, trait or receiver type */
+  parent?: string;
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * Languages with symbol extraction support
+ */
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'java' | 'rust';
+
+const EXTENSION_LANGUAGES: Record<string, CodeLanguage> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.pyi': 'python',
+  '.go': 'go',
+  '.java': 'java',
+  '.rs': 'rust',
+};
+
+/** Symbol kinds whose bodies contain member symbols */
+const CONTAINER_KINDS = new Set<SymbolKind>(['class', 'interface', 'enum', 'trait', 'impl', 'module']);
+
+/**
+ * Detect the language of a file from its extension
+ */
+export function detectLanguage(filePath: string): CodeLanguage | undefined {
+  const match = filePath.toLowerCase().match(/\.[^./\\]+$/);
+  return match ? EXTENSION_LANGUAGES[match[0]] : undefined;
+}
+
+/**
+ * Check whether symbol extraction supports a language
+ */
+export function isSupportedLanguage(language: string | undefined): language is CodeLanguage {
+  return !!language && Object.values(EXTENSION_LANGUAGES).includes(language as CodeLanguage);
+}
+
+/**
+ * Qualified name of a symbol, e.g. `SearchIndex.search`
+ */
+export function qualifiedSymbolName(symbol: CodeSymbol): string {
+  return symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+}
+
+/**
+ * Blank out comments and string literal contents, preserving length and
+ * line breaks, so braces and keywords inside them are not mistaken for code
+ */
+export function maskCode(content: string, language: string): string {
+  const out = content.split('');
+  const python = language === 'python';
+  const rust = language === 'rust';
+  const javascript = language === 'typescript' || language === 'javascript';
+  const backtickStrings = javascript || language === 'go';
+  let i = 0;
+
+  const blank = (from: number, to: number) => {
+    for (let j = from; j < to; j++) {
+      if (out[j] !== '\n') out[j] = ' ';
+    }
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    // Line comments
+    if ((!python && char === '/' && next === '/') || (python && char === '#')) {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? content.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Block comments
+    if (!python && char === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Triple-quoted strings (Python, Java text blocks)
+    if ((python || language === 'java') && (content.startsWith('"""', i) || (python && content.startsWith("'''", i)))) {
+      const quote = content.slice(i, i + 3);
+      const end = content.indexOf(quote, i + 3);
+      const stop = end === -1 ? content.length : end + 3;
+      blank(i + 3, stop - 3);
+      i = stop;
+      continue;
+    }
+
+    // Rust raw strings: r"..." and r#"..."#
+    if (rust && char === 'r' && (next === '"' || next === '#') && !/\w/.test(content[i - 1] || '')) {
+      const match = content.slice(i).match(/^r(#*)"/);
+      if (match) {
+        const closing = `"${match[1]}`;
+        const end = content.indexOf(closing, i + match[0].length);
+        const stop = end === -1 ? content.length : end + closing.length;
+        blank(i + match[0].length, stop - closing.length);
+        i = stop;
+        continue;
+      }
+    }
+
+    if (char === '"' || (char === '`' && backtickStrings) || (char === "'" && !rust)) {
+      const stop = findStringEnd(content, i, char, char !== '`');
+      blank(i + 1, stop - 1);
+      i = stop;
+      continue;
+    }
+
+    // JS/TS regex literals, recognized by the token before the slash
+    if (javascript && char === '/' && isRegexStart(out, i)) {
+      const stop = findRegexEnd(content, i);
+      if (stop !== -1) {
+        blank(i + 1, stop - 1);
+        i = stop;
+        continue;
+      }
+    }
+
+    // Rust char literals; a lone quote is a lifetime
+    if (rust && char === "'") {
+      const match = content.slice(i).match(/^'(\\.[^']*|[^\\'])'/);
+      if (match) {
+        blank(i + 1, i + match[0].length - 1);
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return out.join('');
+}
+
+/**
+ * Extract function, class and method symbols using per-language heuristics
+ *
+ * Only top-level symbols and direct members of containers (classes,
+ * interfaces, impls, traits) are reported; declarations nested inside
+ * function bodies are not. Leading doc comments, decorators and
+ * attributes are included in a symbol's range.
+ */
+export function extractSymbols(content: string, language: string): CodeSymbol[] {
+  if (!isSupportedLanguage(language)) return [];
+
+  const masked = maskCode(content, language);
+  const lines = content.split('\n');
+  const maskedLines = masked.split('\n');
+  const lineOffsets = computeLineOffsets(lines);
+  const depths = language === 'python' ? [] : computeBraceDepths(maskedLines);
+
+  const symbols: CodeSymbol[] = [];
+  const containers: Array<{ symbol: CodeSymbol; depth: number; indent: number }> = [];
+  let skipUntil = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    while (containers.length > 0 && containers[containers.length - 1].symbol.endLine - 1 < i) {
+      containers.pop();
+    }
+    if (i <= skipUntil) continue;
+
+    const text = maskedLines[i].trim();
+    if (!text) continue;
+
+    const indent = maskedLines[i].length - maskedLines[i].trimStart().length;
+    const container = containers[containers.length - 1];
+
+    if (language === 'python') {
+      if (container ? indent <= container.indent : indent !== 0) continue;
+    } else if (depths[i] !== (container ? container.depth + 1 : 0)) {
+      continue;
+    }
+
+    const declaration = matchDeclaration(language, text, container?.symbol);
+    if (!declaration) continue;
+
+    const endLine = language === 'python'
+      ? findIndentedBlockEnd(maskedLines, i, indent)
+      : findBraceBlockEnd(maskedLines, i);
+    const startLine = findLeadingDecorations(lines, i, language);
+
+    const symbol: CodeSymbol = {
+      name: declaration.name,
+      kind: declaration.kind,
+      parent: declaration.parent ?? (container ? container.symbol.name : undefined),
+      startLine: startLine + 1,
+      endLine: endLine + 1,
+      startOffset: lineOffsets[startLine],
+      endOffset: lineOffsets[endLine] + lines[endLine].length,
+    };
+    symbols.push(symbol);
+
+    if (CONTAINER_KINDS.has(symbol.kind)) {
+      containers.push({ symbol, depth: depths[i] ?? 0, indent });
+    } else {
+      skipUntil = endLine;
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Result of matching a declaration line
+ */
+interface Declaration {
+  name: string;
+  kind: SymbolKind;
+  parent?: string;
+}
+
+const CONTROL_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'new', 'else', 'throw', 'do', 'try',
+  'typeof', 'await', 'yield', 'super', 'this', 'function', 'match', 'loop',
+]);
+
+/**
+ * Match a (masked, trimmed) line against the declaration patterns of a language
+ */
+function matchDeclaration(
+  language: CodeLanguage,
+  text: string,
+  container?: CodeSymbol
+): Declaration | null {
+  let m: RegExpMatchArray | null;
+
+  switch (language) {
+    case 'typescript':
+    case 'javascript': {
+      if ((m = text.match(/^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/))) {
+        return { name: m[1], kind: 'class' };
+      }
+      if ((m = text.match(/^(?:export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/))) {
+        return { name: m[1], kind: 'interface' };
+      }
+      if ((m = text.match(/^(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/))) {
+        return { name: m[1], kind: 'enum' };
+      }
+      if ((m = text.match(/^(?:export\s+)?(?:declare\s+)?(?:namespace|module)\s+([A-Za-z_$][\w$.]*)\s*\{/))) {
+        return { name: m[1], kind: 'module' };
+      }
+      if ((m = text.match(/^(?:export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<.*>)?\s*=/))) {
+        return { name: m[1], kind: 'type' };
+      }
+      if ((m = text.match(/^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/))) {
+        return { name: m[1], kind: 'function' };
+      }
+      if ((m = text.match(/^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>|\($)/))) {
+        return { name: m[1], kind: 'function' };
+      }
+      if (container && (container.kind === 'class' || container.kind === 'interface')) {
+        m = text.match(/^(?:(?:public|private|protected|static|async|readonly|override|abstract|declare|get|set)\s+)*\*?\s*([A-Za-z_$#][\w$]*)\s*\??\s*(?:<.*>)?\s*\(/);
+        if (m && !CONTROL_KEYWORDS.has(m[1])) {
+          return { name: m[1], kind: 'method' };
+        }
+      }
+      return null;
+    }
+
+    case 'python': {
+      if ((m = text.match(/^class\s+([A-Za-z_]\w*)/))) {
+        return { name: m[1], kind: 'class' };
+      }
+      if ((m = text.match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)/))) {
+        return { name: m[1], kind: container?.kind === 'class' ? 'method' : 'function' };
+      }
+      return null;
+    }
+
+    case 'go': {
+      if ((m = text.match(/^func\s+\(\s*(?:\w+\s+)?\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*([A-Za-z_]\w*)/))) {
+        return { name: m[2], kind: 'method', parent: m[1] };
+      }
+      if ((m = text.match(/^func\s+([A-Za-z_]\w*)/))) {
+        return { name: m[1], kind: 'function' };
+      }
+      if ((m = text.match(/^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(struct|interface)\b/))) {
+        return { name: m[1], kind: m[2] === 'struct' ? 'struct' : 'interface' };
+      }
+      if ((m = text.match(/^type\s+([A-Za-z_]\w*)/))) {
+        return { name: m[1], kind: 'type' };
+      }
+      return null;
+    }
+
+    case 'java': {
+      const modifiers = '(?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp|synchronized|native|default|transient)\\s+)*';
+      if ((m = text.match(new RegExp(`^${modifiers}(class|interface|enum|record|@interface)\\s+([A-Za-z_]\\w*)`)))) {
+        const kind: SymbolKind = m[1] === 'enum' ? 'enum' : m[1] === 'class' || m[1] === 'record' ? 'class' : 'interface';
+        return { name: m[2], kind };
+      }
+      if (container && container.kind !== 'module') {
+        m = text.match(new RegExp(`^${modifiers}(?:<[^>]+>\\s+)?(?:[\\w.<>\\[\\]?,]+(?:\\s*<[^()]*>)?(?:\\[\\])*\\s+)?([A-Za-z_]\\w*)\\s*\\(`));
+        if (m && !CONTROL_KEYWORDS.has(m[1]) && !/=/.test(text.slice(0, text.indexOf('(')))) {
+          return { name: m[1], kind: 'method' };
+        }
+      }
+      return null;
+    }
+
+    case 'rust': {
+      const visibility = '(?:pub(?:\\([^)]*\\))?\\s+)?';
+      if ((m = text.match(new RegExp(`^${visibility}(?:default\\s+)?(?:const\\s+)?(?:async\\s+)?(?:unsafe\\s+)?(?:extern\\s+"[^"]*"\\s+)?fn\\s+([A-Za-z_]\\w*)`)))) {
+        const inType = container?.kind === 'impl' || container?.kind === 'trait';
+        return { name: m[1], kind: inType ? 'method' : 'function' };
+      }
+      if ((m = text.match(new RegExp(`^${visibility}(?:unsafe\\s+)?(struct|enum|trait|mod|union)\\s+([A-Za-z_]\\w*)`)))) {
+        const kinds: Record<string, SymbolKind> = {
+          struct: 'struct', union: 'struct', enum: 'enum', trait: 'trait', mod: 'module',
+        };
+        return { name: m[2], kind: kinds[m[1]] };
+      }
+      if ((m = text.match(/^(?:unsafe\s+)?impl(?:\s*<.*?>)?\s+(?:!?([\w:]+)(?:<.*?>)?\s+for\s+)?(?:&(?:'\w+\s+)?)?([\w:]+)/))) {
+        return { name: m[2].split('::').pop()!, kind: 'impl' };
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Brace depth at the start of each masked line
+ */
+function computeBraceDepths(maskedLines: string[]): number[] {
+  const depths: number[] = [];
+  let depth = 0;
+
+  for (const line of maskedLines) {
+    depths.push(depth);
+    for (const char of line) {
+      if (char === '{') depth++;
+      else if (char === '}') depth = Math.max(0, depth - 1);
+    }
+  }
+
+  return depths;
+}
+
+/**
+ * Find the last line of a brace-delimited declaration
+ *
+ * The body opens at the first `{` outside parentheses; a `;` before
+ * any body ends a bodiless declaration (signatures, aliases, arrow
+ * functions without braces).
+ */
+function findBraceBlockEnd(maskedLines: string[], start: number): number {
+  let parens = 0;
+  let depth = 0;
+  let opened = false;
+  const limit = Math.min(maskedLines.length, start + 2000);
+
+  for (let i = start; i < limit; i++) {
+    for (const char of maskedLines[i]) {
+      if (char === '(' || char === '[') parens++;
+      else if (char === ')' || char === ']') parens = Math.max(0, parens - 1);
+      else if (char === '{' && (parens === 0 || opened)) {
+        depth++;
+        opened = true;
+      } else if (char === '}' && opened) {
+        depth--;
+        if (depth === 0) return i;
+      } else if (char === ';' && !opened && parens === 0) {
+        return i;
+      }
+    }
+  }
+
+  return opened ? limit - 1 : start;
+}
+
+/**
+ * Find the last line of an indentation-delimited Python block
+ */
+function findIndentedBlockEnd(maskedLines: string[], start: number, indent: number): number {
+  // Skip continuation lines of a multi-line signature
+  let i = start;
+  let parens = 0;
+  for (; i < maskedLines.length; i++) {
+    for (const char of maskedLines[i]) {
+      if (char === '(' || char === '[' || char === '{') parens++;
+      else if (char === ')' || char === ']' || char === '}') parens--;
+    }
+    if (parens <= 0) break;
+  }
+
+  let end = i;
+  for (let j = i + 1; j < maskedLines.length; j++) {
+    const line = maskedLines[j];
+    if (!line.trim()) continue;
+    if (line.length - line.trimStart().length <= indent) break;
+    end = j;
+  }
+
+  return end;
+}
+
+/**
+ * Extend a symbol upwards over doc comments, decorators and attributes
+ */
+function findLeadingDecorations(lines: string[], start: number, language: CodeLanguage): number {
+  const decoration = language === 'python'
+    ? /^(@|#)/
+    : language === 'rust'
+      ? /^(#!?\[|\/\/|\/\*|\*)/
+      : /^(@|\/\/|\/\*|\*)/;
+
+  let first = start;
+  for (let i = start - 1; i >= 0; i--) {
+    const text = lines[i].trim();
+    if (!text || !decoration.test(text)) break;
+    first = i;
+  }
+
+  return first;
+}
+
+/**
+ * Find the index just past the closing quote of a string literal
+ *
+ * Single-line strings end at an unescaped newline if unterminated.
+ */
+function findStringEnd(content: string, start: number, quote: string, singleLine: boolean): number {
+  for (let i = start + 1; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === quote) {
+      return i + 1;
+    } else if (char === '\n' && singleLine) {
+      return i;
+    }
+  }
+  return content.length;
+}
+
+/**
+ * Check whether a slash starts a regex literal rather than a division,
+ * based on the previous significant (already masked) character
+ */
+function isRegexStart(masked: string[], index: number): boolean {
+  let j = index - 1;
+  while (j >= 0 && /\s/.test(masked[j])) j--;
+  if (j < 0) return true;
+
+  if ('(,=:[!&|?{};+-*%<>~^'.includes(masked[j])) return true;
+
+  // Keywords after which an expression starts
+  let word = '';
+  while (j >= 0 && /\w/.test(masked[j])) word = masked[j--] + word;
+  return /^(return|typeof|case|do|else|in|of|void|yield|await)$/.test(word);
+}
+
+/**
+ * Find the index just past the closing slash and flags of a regex literal
+ *
+ * @returns -1 if the literal does not close on the same line
+ */
+function findRegexEnd(content: string, start: number): number {
+  let inClass = false;
+
+  for (let i = start + 1; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') return -1;
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      let end = i + 1;
+      while (end < content.length && /[a-z]/i.test(content[end])) end++;
+      return end;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Offset of the first character of each line
+ */
+function computeLineOffsets(lines: string[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  return offsets;
+}
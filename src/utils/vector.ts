@@ -0,0 +1,166 @@
+import type { DocumentChunk, SearchFilters } from '../types/index.js';
+import { cosineSimilarity } from './embedding.js';
+import { FilterIndex } from './filters.js';
+import type { SearchResult } from './search.js';
+
+/**
+ * Stored chunk embedding
+ */
+interface VectorEntry {
+  chunk: DocumentChunk;
+  vector: number[];
+}
+
+/**
+ * Serializable state of a vector index
+ */
+export interface VectorIndexSnapshot {
+  dimensions?: number;
+  entries: Array<{ chunk: DocumentChunk; vector: number[] }>;
+}
+
+/**
+ * In-memory vector index with exact cosine-similarity kNN
+ *
+ * Performs a brute-force scan, which is fine for tens of thousands of
+ * chunks. Larger corpora should use an ANN-capable vector database.
+ */
+export class VectorIndex {
+  private entries: Map<string, VectorEntry> = new Map();
+  private documentChunks: Map<string, Set<string>> = new Map();
+  private filterIndex = new FilterIndex();
+  private dimensions?: number;
+
+  /**
+   * Add a chunk with its embedding
+   */
+  add(chunk: DocumentChunk, vector: number[]): void {
+    if (this.dimensions === undefined) {
+      this.dimensions = vector.length;
+    } else if (vector.length !== this.dimensions) {
+      throw new Error(
+        `Vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`
+      );
+    }
+
+    // Re-adding a chunk replaces it
+    this.remove(chunk.id);
+    this.entries.set(chunk.id, { chunk, vector });
+    this.filterIndex.add(chunk);
+    this.trackDocumentChunk(chunk);
+  }
+
+  /**
+   * Remove a chunk from the index
+   */
+  remove(chunkId: string): boolean {
+    const entry = this.entries.get(chunkId);
+    if (!entry) return false;
+
+    this.filterIndex.remove(chunkId);
+
+    const siblings = this.documentChunks.get(entry.chunk.documentId);
+    siblings?.delete(chunkId);
+    if (siblings?.size === 0) {
+      this.documentChunks.delete(entry.chunk.documentId);
+    }
+
+    return this.entries.delete(chunkId);
+  }
+
+  /**
+   * Remove all chunks of a document
+   *
+   * @returns the number of chunks removed
+   */
+  removeDocument(documentId: string): number {
+    const chunkIds = Array.from(this.documentChunks.get(documentId) || []);
+    for (const chunkId of chunkIds) {
+      this.remove(chunkId);
+    }
+    return chunkIds.length;
+  }
+
+  /**
+   * Find the chunks most similar to a query vector
+   *
+   * Only chunks matching the filters, and accepted by `accept` if given,
+   * are compared.
+   */
+  search(
+    vector: number[],
+    limit: number = 10,
+    filters?: SearchFilters,
+    accept?: (chunkId: string) => boolean
+  ): SearchResult[] {
+    const results: SearchResult[] = [];
+    const allowed = this.filterIndex.match(filters);
+
+    for (const chunkId of allowed ?? this.entries.keys()) {
+      const entry = this.entries.get(chunkId);
+      if (!entry || (accept && !accept(chunkId))) continue;
+
+      const { chunk, vector: candidate } = entry;
+      results.push({
+        chunk,
+        score: cosineSimilarity(vector, candidate),
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Get chunk count
+   */
+  count(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Take a snapshot of the index
+   */
+  snapshot(): VectorIndexSnapshot {
+    return {
+      dimensions: this.dimensions,
+      entries: Array.from(this.entries.values()),
+    };
+  }
+
+  /**
+   * Replace the index contents with a snapshot
+   */
+  restore(snapshot: VectorIndexSnapshot): void {
+    this.dimensions = snapshot.dimensions;
+    this.entries = new Map(snapshot.entries.map(entry => [entry.chunk.id, entry]));
+    this.filterIndex.clear();
+    this.documentChunks.clear();
+    for (const { chunk } of snapshot.entries) {
+      this.filterIndex.add(chunk);
+      this.trackDocumentChunk(chunk);
+    }
+  }
+
+  /**
+   * Clear the index
+   */
+  clear(): void {
+    this.entries.clear();
+    this.filterIndex.clear();
+    this.documentChunks.clear();
+    this.dimensions = undefined;
+  }
+
+  /**
+   * Record which document a chunk belongs to
+   */
+  private trackDocumentChunk(chunk: DocumentChunk): void {
+    let chunkIds = this.documentChunks.get(chunk.documentId);
+    if (!chunkIds) {
+      chunkIds = new Set();
+      this.documentChunks.set(chunk.documentId, chunkIds);
+    }
+    chunkIds.add(chunk.id);
+  }
+}